@@ -0,0 +1,49 @@
+/**
+ * Writes the Gemini CLI bundle for a saved project file into a directory, so a
+ * repository can regenerate its configuration from a checked-in source file:
+ *
+ *   npm run generate -- my-project.project.json ./out
+ *
+ * Project files are saved from the configurator's Share dialog.
+ */
+import { mkdir, readFile, writeFile, chmod } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { parseProject } from '../src/utils/projectFile';
+import { generateBundle } from '../src/utils/bundle';
+import { commandNameErrors } from '../src/utils/commandNames';
+import { skillLintErrors } from '../src/utils/skillLint';
+
+const USAGE = 'Usage: npm run generate -- <project.json> <output-dir>';
+
+async function main(args: string[]) {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+  const [projectPath, outDir] = args;
+  if (!projectPath || !outDir) throw new Error(USAGE);
+
+  const { name, config } = parseProject(await readFile(projectPath, 'utf8'));
+  const root = resolve(outDir);
+  const errors = [...commandNameErrors(config.commands), ...skillLintErrors(config.skills)];
+  if (errors.length > 0) throw new Error(`Cannot generate "${name}":\n${errors.join('\n')}`);
+  const files = generateBundle(config);
+
+  for (const file of files) {
+    const target = resolve(root, file.path);
+    // Skill and command names come from the project file; never write outside the output directory.
+    if (!target.startsWith(root + sep)) {
+      throw new Error(`Refusing to write "${file.path}" outside ${root}`);
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content);
+    if (file.executable) await chmod(target, 0o755);
+  }
+
+  console.log(`Wrote ${files.length} files for "${name}" to ${root}`);
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
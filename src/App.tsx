@@ -7,8 +7,56 @@ import SettingsBuilder from './views/SettingsBuilder';
 import CommandBuilder from './views/CommandBuilder';
 import ExtensionsManager from './views/ExtensionsManager';
 import SkillsBuilder from './views/SkillsBuilder';
+import SharedLinkDialog from './layout/SharedLinkDialog';
+import { useAppStore } from './store/appStore';
+import { createDefaultConfig, pickConfig } from './store/config';
+import { decodeSharePayload, readSharePayload } from './utils/shareLink';
+import type { ConfigData } from './types';
+
+// True when the active workspace differs from a fresh one, i.e. loading over it would lose work.
+const hasExistingWork = () =>
+  JSON.stringify(pickConfig(useAppStore.getState())) !== JSON.stringify(createDefaultConfig());
 
 function App() {
+  const [shared, setShared] = React.useState<{ name: string; config: ConfigData } | null>(null);
+  const [shareError, setShareError] = React.useState<string | null>(null);
+
+  // Hydrate from a "#share=..." link once at startup, then drop the fragment so a reload doesn't re-apply it.
+  React.useEffect(() => {
+    const payload = readSharePayload(window.location.hash);
+    if (!payload) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    decodeSharePayload(payload)
+      .then((decoded) => {
+        if (hasExistingWork()) {
+          setShared(decoded);
+        } else {
+          useAppStore.getState().replaceConfig(decoded.config, 'Loaded shared configuration');
+        }
+      })
+      .catch((e: Error) => setShareError(e.message));
+  }, []);
+
+  const closeShared = () => {
+    setShared(null);
+    setShareError(null);
+  };
+
+  const openSharedAsWorkspace = () => {
+    if (!shared) return;
+    const { createWorkspace, replaceConfig } = useAppStore.getState();
+    createWorkspace(shared.name);
+    replaceConfig(shared.config, 'Loaded shared configuration');
+    closeShared();
+  };
+
+  const replaceWithShared = () => {
+    if (!shared) return;
+    useAppStore.getState().replaceConfig(shared.config, 'Loaded shared configuration');
+    closeShared();
+  };
+
   return (
     <BrowserRouter>
       <Routes>
@@ -21,6 +69,13 @@ function App() {
           <Route path="extensions" element={<ExtensionsManager />} />
         </Route>
       </Routes>
+      <SharedLinkDialog
+        shared={shared}
+        error={shareError}
+        onOpenAsWorkspace={openSharedAsWorkspace}
+        onReplace={replaceWithShared}
+        onClose={closeShared}
+      />
     </BrowserRouter>
   );
 }
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Box, Typography, Paper, TextField, Button, IconButton, Chip, Tooltip } from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  PlayArrow as PlayIcon,
+  Check as CheckIcon,
+  BookmarkAdd as BookmarkAddIcon,
+} from '@mui/icons-material';
+import type { CommandFixture } from '../types';
+import { createInvocation, expandCommandPrompt, runCommandFixtures } from '../utils/commandPrompt';
+
+interface CommandTestBenchProps {
+  name: string;
+  prompt: string;
+  fixtures: CommandFixture[];
+  /** Whether `fixtures` differ from the saved command's; they are stored when the command is. */
+  unsaved: boolean;
+  onChange: (fixtures: CommandFixture[]) => void;
+}
+
+const output = {
+  fontFamily: 'monospace',
+  fontSize: '0.85rem',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  m: 0,
+  p: 1.5,
+  borderRadius: 1,
+  bgcolor: 'action.hover',
+} as const;
+
+// Expands the draft prompt for sample arguments, and checks saved samples against what they produced when recorded.
+export default function CommandTestBench({ name, prompt, fixtures, unsaved, onChange }: CommandTestBenchProps) {
+  const [args, setArgs] = React.useState('');
+  const commandName = name || 'command';
+  const invocation = createInvocation(commandName, args);
+  const expanded = expandCommandPrompt(prompt, invocation);
+  const results = runCommandFixtures({ name: commandName, prompt, fixtures });
+  const failing = results.filter((r) => !r.passes).length;
+
+  const handleSaveFixture = () => {
+      const trimmed = args.trim();
+      // Saving the same arguments again re-records the existing fixture.
+      const existing = fixtures.find((f) => f.args === trimmed);
+      onChange(existing
+          ? fixtures.map((f) => (f === existing ? { ...f, expected: expanded } : f))
+          : [...fixtures, { id: crypto.randomUUID(), args: trimmed, expected: expanded }]);
+  };
+
+  const handleAccept = (id: string, actual: string) =>
+      onChange(fixtures.map((f) => (f.id === id ? { ...f, expected: actual } : f)));
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Test Bench</Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        {unsaved && (
+            <Tooltip title="Fixtures are saved together with the command">
+                <Chip size="small" variant="outlined" label="Unsaved fixture changes" sx={{ mr: 1 }} />
+            </Tooltip>
+        )}
+        {fixtures.length > 0 && (
+            <Chip
+                size="small"
+                color={failing > 0 ? 'warning' : 'success'}
+                label={failing > 0 ? `${failing} of ${fixtures.length} fixtures changed` : `All ${fixtures.length} fixtures pass`}
+            />
+        )}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mb: 1 }}>
+        <TextField
+            label="Sample Arguments"
+            placeholder="src/utils.ts --verbose"
+            value={args}
+            onChange={(e) => setArgs(e.target.value)}
+            helperText={`Runs as ${invocation.raw}`}
+            size="small"
+            fullWidth
+        />
+        <Button startIcon={<BookmarkAddIcon />} onClick={handleSaveFixture} disabled={!prompt} sx={{ flexShrink: 0 }}>
+            Save as Fixture
+        </Button>
+      </Box>
+      <Typography variant="caption" color="text.secondary">Prompt sent to Gemini</Typography>
+      <Box component="pre" sx={output}>{expanded || ' '}</Box>
+
+      {results.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+              <Typography variant="subtitle2" gutterBottom>Fixtures</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Fixtures re-run against the prompt as you edit it. A changed fixture shows the recorded output next to the new one.
+                  Fixture changes are kept when you save the command.
+              </Typography>
+              {results.map(({ fixture, actual, passes }) => (
+                  <Box key={fixture.id} sx={{ borderTop: 1, borderColor: 'divider', py: 1 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Chip size="small" variant="outlined" color={passes ? 'success' : 'warning'} label={passes ? 'Pass' : 'Changed'} />
+                          <Typography variant="body2" sx={{ fontFamily: 'monospace', flexGrow: 1, wordBreak: 'break-all' }}>
+                              {fixture.args ? `/${commandName} ${fixture.args}` : `/${commandName}`}
+                          </Typography>
+                          <Tooltip title="Load into the test bench">
+                              <IconButton size="small" onClick={() => setArgs(fixture.args)}><PlayIcon fontSize="small" /></IconButton>
+                          </Tooltip>
+                          {!passes && (
+                              <Tooltip title="Accept the new output">
+                                  <IconButton size="small" onClick={() => handleAccept(fixture.id, actual)}><CheckIcon fontSize="small" /></IconButton>
+                              </Tooltip>
+                          )}
+                          <Tooltip title="Delete fixture">
+                              <IconButton size="small" onClick={() => onChange(fixtures.filter((f) => f.id !== fixture.id))}>
+                                  <DeleteIcon fontSize="small" />
+                              </IconButton>
+                          </Tooltip>
+                      </Box>
+                      {!passes && (
+                          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                              <Box sx={{ flex: 1, minWidth: 220 }}>
+                                  <Typography variant="caption" color="text.secondary">Recorded</Typography>
+                                  <Box component="pre" sx={{ ...output, border: 1, borderColor: 'error.light' }}>{fixture.expected}</Box>
+                              </Box>
+                              <Box sx={{ flex: 1, minWidth: 220 }}>
+                                  <Typography variant="caption" color="text.secondary">Now</Typography>
+                                  <Box component="pre" sx={{ ...output, border: 1, borderColor: 'success.light' }}>{actual}</Box>
+                              </Box>
+                          </Box>
+                      )}
+                  </Box>
+              ))}
+          </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,292 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Checkbox,
+  Button,
+  Tooltip,
+  InputAdornment,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon,
+  Folder as FolderIcon,
+  Search as SearchIcon,
+  ContentCopy as DuplicateIcon,
+  Download as DownloadIcon,
+  ErrorOutline as ErrorIcon,
+  WarningAmber as WarningIcon,
+} from '@mui/icons-material';
+import { saveAs } from 'file-saver';
+import { useAppStore } from '../store/appStore';
+import type { CustomCommand } from '../types';
+import {
+  buildCommandTree,
+  commandsInNamespace,
+  commandNamespace,
+  joinCommandName,
+  matchesCommandQuery,
+  NAMESPACE_SEPARATOR,
+} from '../utils/commandTree';
+import type { CommandNamespaceNode } from '../utils/commandTree';
+import { generateCommandFiles } from '../utils/bundle';
+import { zipBundleFiles } from '../utils/zip';
+import { validateCommandNames } from '../utils/commandNames';
+
+interface CommandTreeProps {
+  editingId: string | null;
+  onEdit: (command: CustomCommand) => void;
+}
+
+const INDENT = 2;
+
+// Commands grouped into their ":" namespaces. Commands can be dragged onto a folder (or the
+// list background, for the top level); dragging a selected command moves the whole selection.
+export default function CommandTree({ editingId, onEdit }: CommandTreeProps) {
+  const { commands, removeCommand, removeCommands, duplicateCommands, moveCommands, renameCommandNamespace } = useAppStore();
+  const [query, setQuery] = React.useState('');
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = React.useState<{ path: string; draft: string } | null>(null);
+  const [dragIds, setDragIds] = React.useState<string[]>([]);
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+
+  const visible = commands.filter((cmd) => matchesCommandQuery(cmd, query));
+  const tree = buildCommandTree(visible);
+  // Selection can outlive commands removed elsewhere (undo, import); only count what still exists.
+  const selectedIds = commands.filter((cmd) => selected.has(cmd.id)).map((cmd) => cmd.id);
+  const searching = query.trim() !== '';
+  // Renames and moves can create clashes, so every command is checked, not just the one being edited.
+  const nameIssues = new Map(validateCommandNames(commands).map(({ command, issues }) => [command.id, issues]));
+  const selectedWithErrors = selectedIds.filter((id) => nameIssues.get(id)?.some((issue) => issue.severity === 'error'));
+
+  const setSelection = (ids: string[], checked: boolean) => {
+      const next = new Set(selected);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      setSelected(next);
+  };
+
+  const toggleCollapsed = (path: string) => {
+      const next = new Set(collapsed);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      setCollapsed(next);
+  };
+
+  const handleDragStart = (e: React.DragEvent, cmd: CustomCommand) => {
+      e.dataTransfer.effectAllowed = 'move';
+      setDragIds(selected.has(cmd.id) ? selectedIds : [cmd.id]);
+  };
+
+  const dropProps = (namespace: string) => ({
+      onDragOver: (e: React.DragEvent) => {
+          if (dragIds.length === 0) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setDropTarget(namespace);
+      },
+      onDrop: (e: React.DragEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          const moving = commands.filter((cmd) => dragIds.includes(cmd.id) && commandNamespace(cmd.name) !== namespace);
+          if (moving.length > 0) moveCommands(moving.map((cmd) => cmd.id), namespace);
+          setDragIds([]);
+          setDropTarget(null);
+      },
+  });
+
+  const commitRename = () => {
+      if (!renaming) return;
+      const label = renaming.draft.trim();
+      const to = joinCommandName(commandNamespace(renaming.path), label);
+      if (label && !label.split(NAMESPACE_SEPARATOR).some((part) => !part.trim()) && to !== renaming.path) {
+          renameCommandNamespace(renaming.path, to);
+          if (collapsed.has(renaming.path)) toggleCollapsed(renaming.path);
+      }
+      setRenaming(null);
+  };
+
+  const handleExport = async () => {
+      if (selectedWithErrors.length > 0) return;
+      setExportError(null);
+      try {
+          saveAs(await zipBundleFiles(generateCommandFiles(commands.filter((cmd) => selected.has(cmd.id)))), 'commands.zip');
+      } catch (e) {
+          setExportError(`Could not create commands.zip: ${(e as Error).message}`);
+      }
+  };
+
+  const handleDeleteSelected = () => {
+      removeCommands(selectedIds);
+      setSelected(new Set());
+  };
+
+  const renderCommand = (cmd: CustomCommand, depth: number) => {
+    const issues = nameIssues.get(cmd.id) ?? [];
+    const hasError = issues.some((issue) => issue.severity === 'error');
+    return (
+      <ListItem
+          key={cmd.id}
+          disablePadding
+          draggable
+          onDragStart={(e) => handleDragStart(e, cmd)}
+          onDragEnd={() => {
+              setDragIds([]);
+              setDropTarget(null);
+          }}
+          secondaryAction={
+              <IconButton edge="end" aria-label="delete" onClick={() => removeCommand(cmd.id)}>
+                  <DeleteIcon />
+              </IconButton>
+          }
+      >
+          <ListItemButton onClick={() => onEdit(cmd)} selected={editingId === cmd.id} sx={{ pl: 1 + depth * INDENT }}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                  <Checkbox
+                      edge="start"
+                      size="small"
+                      checked={selected.has(cmd.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => setSelection([cmd.id], e.target.checked)}
+                  />
+              </ListItemIcon>
+              <ListItemText
+                  primary={`/${cmd.name}`}
+                  secondary={cmd.description || 'No description'}
+                  primaryTypographyProps={{ fontWeight: 'bold', color: 'primary.main' }}
+                  secondaryTypographyProps={{ noWrap: true }}
+              />
+              {issues.length > 0 && (
+                  <Tooltip title={issues.map((issue) => issue.message).join(' ')}>
+                      {hasError ? <ErrorIcon color="error" fontSize="small" /> : <WarningIcon color="warning" fontSize="small" />}
+                  </Tooltip>
+              )}
+          </ListItemButton>
+      </ListItem>
+    );
+  };
+
+  const renderNamespace = (node: CommandNamespaceNode, depth: number): React.ReactNode => {
+    const open = searching || !collapsed.has(node.path);
+    const ids = commandsInNamespace(visible, node.path).map((cmd) => cmd.id);
+    const checkedCount = ids.filter((id) => selected.has(id)).length;
+    return (
+      <React.Fragment key={node.path}>
+        <ListItem
+            disablePadding
+            {...dropProps(node.path)}
+            sx={{ bgcolor: dropTarget === node.path ? 'action.selected' : undefined }}
+            secondaryAction={
+                renaming?.path !== node.path && (
+                    <Tooltip title="Rename namespace">
+                        <IconButton edge="end" aria-label="rename" onClick={() => setRenaming({ path: node.path, draft: node.label })}>
+                            <EditIcon fontSize="small" />
+                        </IconButton>
+                    </Tooltip>
+                )
+            }
+        >
+            <ListItemButton onClick={() => toggleCollapsed(node.path)} sx={{ pl: 1 + depth * INDENT }}>
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                    <Checkbox
+                        edge="start"
+                        size="small"
+                        checked={ids.length > 0 && checkedCount === ids.length}
+                        indeterminate={checkedCount > 0 && checkedCount < ids.length}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setSelection(ids, e.target.checked)}
+                    />
+                </ListItemIcon>
+                {open ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+                <FolderIcon fontSize="small" color="action" sx={{ mx: 1 }} />
+                {renaming?.path === node.path ? (
+                    <TextField
+                        value={renaming.draft}
+                        onChange={(e) => setRenaming({ ...renaming, draft: e.target.value })}
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => {
+                            e.stopPropagation();
+                            // Blurring commits, so Enter does not rename twice.
+                            if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                            if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        onBlur={commitRename}
+                        size="small"
+                        variant="standard"
+                        autoFocus
+                    />
+                ) : (
+                    <ListItemText primary={`${node.label}:`} secondary={`${ids.length} commands`} />
+                )}
+            </ListItemButton>
+        </ListItem>
+        {open && node.namespaces.map((child) => renderNamespace(child, depth + 1))}
+        {open && node.commands.map((cmd) => renderCommand(cmd, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <Box>
+      <Box sx={{ px: 2, pb: 1 }}>
+        <TextField
+            placeholder="Filter commands"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            size="small"
+            fullWidth
+            InputProps={{
+                startAdornment: <InputAdornment position="start"><SearchIcon fontSize="small" /></InputAdornment>,
+            }}
+        />
+      </Box>
+      {selectedIds.length > 0 && (
+          <Box sx={{ px: 2, pb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="body2" sx={{ flexGrow: 1 }}>{selectedIds.length} selected</Typography>
+              <Button size="small" startIcon={<DuplicateIcon />} onClick={() => duplicateCommands(selectedIds)}>Duplicate</Button>
+              <Tooltip title={selectedWithErrors.length > 0 ? 'Fix the selected command names before exporting' : ''}>
+                  <span>
+                      <Button size="small" startIcon={<DownloadIcon />} onClick={handleExport} disabled={selectedWithErrors.length > 0}>Export</Button>
+                  </span>
+              </Tooltip>
+              <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={handleDeleteSelected}>Delete</Button>
+          </Box>
+      )}
+      {exportError && (
+          <Typography variant="body2" color="error" sx={{ px: 2, pb: 1 }}>{exportError}</Typography>
+      )}
+      <List
+          {...dropProps('')}
+          sx={{ maxHeight: '600px', overflow: 'auto', bgcolor: dropTarget === '' ? 'action.hover' : undefined }}
+      >
+        {commands.length === 0 && (
+            <ListItem>
+                <ListItemText secondary="No commands yet. Create one!" />
+            </ListItem>
+        )}
+        {commands.length > 0 && visible.length === 0 && (
+            <ListItem>
+                <ListItemText secondary={`No commands match "${query.trim()}".`} />
+            </ListItem>
+        )}
+        {tree.namespaces.map((node) => renderNamespace(node, 0))}
+        {tree.commands.map((cmd) => renderCommand(cmd, 0))}
+      </List>
+      {dragIds.length > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ px: 2 }}>
+              Drop on a namespace, or on empty space for the top level.
+          </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,22 @@
+import { FormHelperText } from '@mui/material';
+import { formatIssuePath } from '../utils/jsonSchema';
+import type { ValidationIssue } from '../utils/jsonSchema';
+
+interface FieldIssueProps {
+  issues: ValidationIssue[];
+  path: (string | number)[];
+  /** Only issues on `path` itself, for containers whose children show their own. */
+  exact?: boolean;
+}
+
+// Shows the first validation issue at or below `path` as helper text under a form field.
+export default function FieldIssue({ issues, path, exact = false }: FieldIssueProps) {
+  const issue = issues.find((i) => (!exact || i.path.length === path.length) && path.every((part, idx) => i.path[idx] === part));
+  if (!issue) return null;
+  const subPath = formatIssuePath(issue.path.slice(path.length));
+  return (
+    <FormHelperText error={issue.severity === 'error'} sx={{ color: issue.severity === 'warning' ? 'warning.main' : undefined }}>
+      {subPath ? `${subPath}: ` : ''}{issue.message}
+    </FormHelperText>
+  );
+}
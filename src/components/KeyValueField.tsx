@@ -0,0 +1,37 @@
+import React from 'react';
+import { Box, Typography, TextField, Button, IconButton, FormHelperText } from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+
+interface KeyValueFieldProps {
+  label: React.ReactNode;
+  keyPlaceholder: string;
+  valuePlaceholder: string;
+  rows: [string, string][];
+  error?: string;
+  helperText?: string;
+  onChange: (rows: [string, string][]) => void;
+}
+
+// Editable key/value rows, e.g. environment variables or HTTP headers.
+export default function KeyValueField({ label, keyPlaceholder, valuePlaceholder, rows, error, helperText, onChange }: KeyValueFieldProps) {
+  const updateRow = (idx: number, row: [string, string]) => onChange(rows.map((r, i) => (i === idx ? row : r)));
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">{label}</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={() => onChange([...rows, ['', '']])}>Add</Button>
+      </Box>
+      {rows.map(([key, value], idx) => (
+          <Box key={idx} sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <TextField size="small" placeholder={keyPlaceholder} value={key} onChange={(e) => updateRow(idx, [e.target.value, value])} sx={{ flex: 1 }} />
+              <TextField size="small" placeholder={valuePlaceholder} value={value} onChange={(e) => updateRow(idx, [key, e.target.value])} sx={{ flex: 2 }} />
+              <IconButton size="small" onClick={() => onChange(rows.filter((_, i) => i !== idx))}>
+                  <DeleteIcon fontSize="small" />
+              </IconButton>
+          </Box>
+      ))}
+      {error ? <FormHelperText error>{error}</FormHelperText> : helperText && <FormHelperText>{helperText}</FormHelperText>}
+    </Box>
+  );
+}
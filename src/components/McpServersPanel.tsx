@@ -0,0 +1,362 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  IconButton,
+  Tooltip,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  FormHelperText,
+  Alert,
+  ToggleButtonGroup,
+  ToggleButton,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+import type { McpConflictResolution, McpServerConfig } from '../types';
+import {
+  MCP_TRANSPORT_LABELS,
+  getMcpTransport,
+  toMcpServerDraft,
+  fromMcpServerDraft,
+  validateMcpServerDraft,
+  mergeExtensionMcpServers,
+} from '../utils/mcpServers';
+import type { McpServerDraft, McpTransport } from '../utils/mcpServers';
+import { formatIssuePath } from '../utils/jsonSchema';
+import type { ValidationIssue } from '../utils/jsonSchema';
+import StringListField from './StringListField';
+import KeyValueField from './KeyValueField';
+import ScopeSelect from './ScopeSelect';
+import { getSettingsScope, mcpServerScopeKey } from '../utils/settingsScopes';
+
+const describeServer = (server: McpServerConfig) => {
+  const transport = getMcpTransport(server);
+  if (transport === 'http') return server.httpUrl;
+  if (transport === 'sse') return server.url;
+  return [server.command, ...(server.args ?? [])].join(' ');
+};
+
+interface McpServersPanelProps {
+  /** Schema issues under "mcpServers", shown next to the server they belong to. */
+  issues?: ValidationIssue[];
+}
+
+export default function McpServersPanel({ issues = [] }: McpServersPanelProps) {
+  const { settings, settingsScopes, setSettingsScope, updateSettings, activeExtensions, resolveMcpConflict } = useAppStore();
+  const servers = settings.mcpServers ?? {};
+  const merged = mergeExtensionMcpServers(servers, activeExtensions);
+  const extensionServers = Object.entries(merged.origins);
+  const [editing, setEditing] = React.useState<{ originalName: string | null; draft: McpServerDraft } | null>(null);
+  const [showErrors, setShowErrors] = React.useState(false);
+
+  const otherNames = Object.keys(servers).filter((n) => n !== editing?.originalName);
+  const errors = editing ? validateMcpServerDraft(editing.draft, otherNames) : {};
+  const visibleErrors = showErrors ? errors : {};
+
+  const openEditor = (name: string | null) => {
+      setShowErrors(false);
+      setEditing({ originalName: name, draft: toMcpServerDraft(name ?? '', name ? servers[name] : undefined) });
+  };
+
+  const updateDraft = (patch: Partial<McpServerDraft>) => {
+      if (editing) setEditing({ ...editing, draft: { ...editing.draft, ...patch } });
+  };
+
+  const handleSave = () => {
+      if (!editing) return;
+      if (Object.keys(errors).length > 0) {
+          setShowErrors(true);
+          return;
+      }
+      const { name, server } = fromMcpServerDraft(editing.draft, editing.originalName ? servers[editing.originalName] : undefined);
+      // Rebuild the map so a renamed server keeps its position.
+      const entries = Object.entries(servers);
+      const next = editing.originalName
+          ? entries.map(([n, s]) => (n === editing.originalName ? [name, server] : [n, s]))
+          : [...entries, [name, server]];
+      updateSettings({ mcpServers: Object.fromEntries(next) });
+      // A renamed server stays in the settings file it was in.
+      if (editing.originalName && editing.originalName !== name) {
+          const scope = getSettingsScope(settingsScopes, mcpServerScopeKey(editing.originalName));
+          if (scope !== 'workspace') {
+              setSettingsScope(mcpServerScopeKey(editing.originalName), 'workspace');
+              setSettingsScope(mcpServerScopeKey(name), scope);
+          }
+      }
+      setEditing(null);
+  };
+
+  const handleDelete = (name: string) => {
+      const rest = { ...servers };
+      delete rest[name];
+      updateSettings({ mcpServers: rest });
+  };
+
+  const draft = editing?.draft;
+
+  const scopeSelect = (name: string) => (
+      <ScopeSelect
+          value={getSettingsScope(settingsScopes, mcpServerScopeKey(name))}
+          onChange={(scope) => setSettingsScope(mcpServerScopeKey(name), scope)}
+      />
+  );
+
+  const serverIssues = (name: string) =>
+      issues
+          .filter((i) => i.path[1] === name)
+          .map((i) => (
+              <FormHelperText key={i.message + formatIssuePath(i.path)} error={i.severity === 'error'} sx={{ color: i.severity === 'warning' ? 'warning.main' : undefined }}>
+                  {formatIssuePath(i.path.slice(2)) ? `${formatIssuePath(i.path.slice(2))}: ` : ''}{i.message}
+              </FormHelperText>
+          ));
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">MCP Servers</Typography>
+        <Button startIcon={<AddIcon />} onClick={() => openEditor(null)}>Add Server</Button>
+      </Box>
+
+      {Object.keys(servers).length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+              No MCP servers configured. Servers give Gemini extra tools, e.g. a database or issue tracker.
+          </Typography>
+      ) : (
+          <List dense disablePadding>
+              {Object.entries(servers).map(([name, server]) => (
+                  <ListItem
+                      key={name}
+                      disableGutters
+                      sx={{ pr: 24 }}
+                      secondaryAction={
+                          <>
+                              {scopeSelect(name)}
+                              <Tooltip title="Edit">
+                                  <IconButton size="small" onClick={() => openEditor(name)}><EditIcon fontSize="small" /></IconButton>
+                              </Tooltip>
+                              <Tooltip title="Remove">
+                                  <IconButton size="small" onClick={() => handleDelete(name)}><DeleteIcon fontSize="small" /></IconButton>
+                              </Tooltip>
+                          </>
+                      }
+                  >
+                      <ListItemText
+                          primary={
+                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                  {name}
+                                  <Chip size="small" label={getMcpTransport(server)} variant="outlined" />
+                                  {server.trust && <Chip size="small" label="trusted" color="warning" variant="outlined" />}
+                              </Box>
+                          }
+                          secondary={
+                              <>
+                                  <Box component="span" sx={{ display: 'block', fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                      {describeServer(server)}
+                                  </Box>
+                                  {serverIssues(name)}
+                              </>
+                          }
+                          secondaryTypographyProps={{ component: 'div' }}
+                      />
+                  </ListItem>
+              ))}
+          </List>
+      )}
+
+      {extensionServers.length > 0 && (
+          <>
+              <Typography variant="subtitle2" sx={{ mt: 2 }}>From Extensions</Typography>
+              <List dense disablePadding>
+                  {extensionServers.map(([name, extensionName]) => (
+                      <ListItem key={name} disableGutters sx={{ pr: 14 }} secondaryAction={scopeSelect(name)}>
+                          <ListItemText
+                              primary={
+                                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                      {name}
+                                      <Chip size="small" label={getMcpTransport(merged.servers[name])} variant="outlined" />
+                                      <Chip size="small" label={`from ${extensionName}`} color="secondary" variant="outlined" />
+                                  </Box>
+                              }
+                              secondary={
+                                  <>
+                                      <Box component="span" sx={{ display: 'block', fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                          {describeServer(merged.servers[name])}
+                                      </Box>
+                                      {serverIssues(name)}
+                                  </>
+                              }
+                              secondaryTypographyProps={{ component: 'div' }}
+                          />
+                      </ListItem>
+                  ))}
+              </List>
+              <Typography variant="caption" color="text.secondary">
+                  Added to the exported settings.json while the extension is selected; remove the extension to remove them.
+              </Typography>
+          </>
+      )}
+
+      {merged.conflicts.map((conflict) => (
+          <Alert
+              key={`${conflict.extension.id}:${conflict.serverName}`}
+              severity={conflict.resolution ? 'info' : 'warning'}
+              sx={{ mt: 2, alignItems: 'center' }}
+              action={
+                  <ToggleButtonGroup
+                      size="small"
+                      exclusive
+                      value={conflict.resolution ?? null}
+                      onChange={(_, value: McpConflictResolution | null) => {
+                          if (value) resolveMcpConflict(conflict.extension.id, conflict.serverName, value);
+                      }}
+                  >
+                      <ToggleButton value="keep-existing">Keep existing</ToggleButton>
+                      <ToggleButton value="use-extension">Use extension</ToggleButton>
+                  </ToggleButtonGroup>
+              }
+          >
+              {conflict.extension.name} also defines "{conflict.serverName}", which is already set by{' '}
+              {conflict.existingSource === 'settings' ? 'your settings' : conflict.existingSource}.
+              {!conflict.resolution && ' Keeping the existing server until you choose.'}
+          </Alert>
+      ))}
+
+      <Dialog data-local-undo open={Boolean(editing)} onClose={() => setEditing(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing?.originalName ? `Edit ${editing.originalName}` : 'Add MCP Server'}</DialogTitle>
+        {draft && (
+            <DialogContent>
+                <TextField
+                    label="Server Name"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    error={Boolean(visibleErrors.name)}
+                    helperText={visibleErrors.name ?? 'Key under "mcpServers", e.g. github'}
+                    fullWidth
+                    size="small"
+                    sx={{ mt: 1, mb: 2 }}
+                />
+                <TextField
+                    select
+                    label="Transport"
+                    value={draft.transport}
+                    onChange={(e) => updateDraft({ transport: e.target.value as McpTransport })}
+                    fullWidth
+                    size="small"
+                    sx={{ mb: 2 }}
+                >
+                    {(Object.keys(MCP_TRANSPORT_LABELS) as McpTransport[]).map((t) => (
+                        <MenuItem key={t} value={t}>{MCP_TRANSPORT_LABELS[t]}</MenuItem>
+                    ))}
+                </TextField>
+
+                {draft.transport === 'stdio' ? (
+                    <>
+                        <TextField
+                            label="Command"
+                            placeholder="npx"
+                            value={draft.command}
+                            onChange={(e) => updateDraft({ command: e.target.value })}
+                            error={Boolean(visibleErrors.command)}
+                            helperText={visibleErrors.command}
+                            fullWidth
+                            size="small"
+                            sx={{ mb: 2 }}
+                        />
+                        <StringListField label="Arguments" placeholder="-y" values={draft.args} onChange={(args) => updateDraft({ args })} />
+                        <KeyValueField
+                            label="Environment"
+                            keyPlaceholder="API_KEY"
+                            valuePlaceholder="$MY_API_KEY"
+                            rows={draft.env}
+                            error={visibleErrors.env}
+                            helperText="Values like $VAR are expanded from your shell environment."
+                            onChange={(env) => updateDraft({ env })}
+                        />
+                        <TextField
+                            label="Working Directory"
+                            placeholder="./mcp-server"
+                            value={draft.cwd}
+                            onChange={(e) => updateDraft({ cwd: e.target.value })}
+                            fullWidth
+                            size="small"
+                            sx={{ mb: 2 }}
+                        />
+                    </>
+                ) : (
+                    <>
+                        <TextField
+                            label={draft.transport === 'http' ? 'HTTP URL' : 'SSE URL'}
+                            placeholder={draft.transport === 'http' ? 'https://example.com/mcp' : 'https://example.com/sse'}
+                            value={draft.url}
+                            onChange={(e) => updateDraft({ url: e.target.value })}
+                            error={Boolean(visibleErrors.url)}
+                            helperText={visibleErrors.url}
+                            fullWidth
+                            size="small"
+                            sx={{ mb: 2 }}
+                        />
+                        <KeyValueField
+                            label="Headers"
+                            keyPlaceholder="Authorization"
+                            valuePlaceholder="Bearer $TOKEN"
+                            rows={draft.headers}
+                            error={visibleErrors.headers}
+                            onChange={(headers) => updateDraft({ headers })}
+                        />
+                    </>
+                )}
+
+                <TextField
+                    label="Timeout (ms)"
+                    placeholder="600000"
+                    value={draft.timeout}
+                    onChange={(e) => updateDraft({ timeout: e.target.value })}
+                    error={Boolean(visibleErrors.timeout)}
+                    helperText={visibleErrors.timeout ?? 'Leave empty for the Gemini CLI default (10 minutes).'}
+                    fullWidth
+                    size="small"
+                    sx={{ mb: 2 }}
+                />
+                <FormControlLabel
+                    control={<Switch checked={draft.trust} onChange={(e) => updateDraft({ trust: e.target.checked })} />}
+                    label="Trust this server (skip tool confirmations)"
+                    sx={{ mb: 2 }}
+                />
+                <StringListField
+                    label="Include Tools"
+                    placeholder="Only expose these tools (empty = all)"
+                    values={draft.includeTools}
+                    onChange={(includeTools) => updateDraft({ includeTools })}
+                />
+                <StringListField
+                    label="Exclude Tools"
+                    placeholder="Never expose these tools"
+                    values={draft.excludeTools}
+                    error={visibleErrors.excludeTools}
+                    onChange={(excludeTools) => updateDraft({ excludeTools })}
+                />
+            </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={showErrors && Object.keys(errors).length > 0}>
+              Save Server
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -0,0 +1,65 @@
+import { Box, Tooltip } from '@mui/material';
+import { parsePromptTemplate, ARGS_PLACEHOLDER } from '../utils/commandPrompt';
+import type { PromptSegment } from '../utils/commandPrompt';
+
+interface PromptHighlightProps {
+  prompt: string;
+}
+
+const SEGMENT_STYLES = {
+  args: { bgcolor: 'primary.light', color: 'primary.contrastText' },
+  shell: { bgcolor: 'warning.light', color: 'warning.contrastText' },
+  file: { bgcolor: 'info.light', color: 'info.contrastText' },
+} as const;
+
+const SEGMENT_HINTS = {
+  args: 'Replaced with the arguments typed after the command.',
+  shell: 'Runs this shell command and inserts its output.',
+  file: 'Inserts the contents of this file or directory.',
+} as const;
+
+// {{args}} inside a shell block stays visible as its own mark.
+const renderBody = (segment: Extract<PromptSegment, { kind: 'shell' | 'file' }>) =>
+  segment.text.split(ARGS_PLACEHOLDER).flatMap((part, idx) => [
+    ...(idx > 0 ? [<Box key={`a${idx}`} component="span" sx={{ textDecoration: 'underline', fontWeight: 'bold' }}>{ARGS_PLACEHOLDER}</Box>] : []),
+    part,
+  ]);
+
+// Read-only copy of a prompt template with {{args}}, !{...} and @{...} marked up.
+export default function PromptHighlight({ prompt }: PromptHighlightProps) {
+  return (
+    <Box
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: '0.875rem',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        p: 1.5,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1,
+        bgcolor: 'action.hover',
+      }}
+    >
+      {parsePromptTemplate(prompt).map((segment) => {
+        if (segment.kind === 'text') return <span key={segment.start}>{segment.text}</span>;
+        const unclosed = segment.kind !== 'args' && !segment.closed;
+        return (
+          <Tooltip key={segment.start} title={unclosed ? 'Missing closing brace.' : SEGMENT_HINTS[segment.kind]}>
+            <Box
+              component="span"
+              sx={{
+                ...SEGMENT_STYLES[segment.kind],
+                borderRadius: 0.5,
+                px: 0.25,
+                ...(unclosed && { bgcolor: 'error.light', color: 'error.contrastText', textDecoration: 'wavy underline' }),
+              }}
+            >
+              {segment.kind === 'args' ? segment.text : renderBody(segment)}
+            </Box>
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,137 @@
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  FormHelperText,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+import {
+  SANDBOX_RUNTIME_LABELS,
+  SANDBOX_DOCKERFILE_PATH,
+  SANDBOX_DOCKERFILE_TEMPLATE,
+  getSandboxRuntime,
+  toSandboxSetting,
+  isYoloWithoutSandbox,
+  validateSandboxConfig,
+} from '../utils/sandbox';
+import type { SandboxRuntime } from '../utils/sandbox';
+import { getSettingsScope } from '../utils/settingsScopes';
+import ScopeSelect from './ScopeSelect';
+import SchemaField from './SchemaField';
+import StringListField from './StringListField';
+
+export default function SandboxPanel() {
+  const { settings, settingsScopes, setSettingsScope, updateSettings, sandbox, updateSandbox } = useAppStore();
+  const runtime = getSandboxRuntime(settings.sandbox);
+  const errors = validateSandboxConfig(sandbox);
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">Sandbox</Typography>
+        <ScopeSelect value={getSettingsScope(settingsScopes, 'sandbox')} onChange={(scope) => setSettingsScope('sandbox', scope)} />
+      </Box>
+      <Typography variant="body2" color="text.secondary" paragraph>
+          Runs Gemini's tools in a container so file edits and shell commands cannot touch the rest of your machine.
+          The image, environment and mounts are written to .gemini/.env.
+      </Typography>
+
+      {isYoloWithoutSandbox(settings) && (
+          <Alert
+              severity="warning"
+              sx={{ mb: 2 }}
+              action={<Button color="inherit" size="small" onClick={() => updateSettings({ sandbox: 'docker' })}>Use Docker</Button>}
+          >
+              YOLO mode is on without a sandbox: Gemini will run commands on your machine without asking.
+          </Alert>
+      )}
+
+      <TextField
+          select
+          label="Runtime"
+          value={runtime}
+          onChange={(e) => updateSettings({ sandbox: toSandboxSetting(e.target.value as SandboxRuntime) })}
+          helperText='Written to settings.json as "sandbox".'
+          fullWidth
+          size="small"
+          sx={{ mb: 2 }}
+      >
+          {(Object.keys(SANDBOX_RUNTIME_LABELS) as SandboxRuntime[]).map((r) => (
+              <MenuItem key={r} value={r}>{SANDBOX_RUNTIME_LABELS[r]}</MenuItem>
+          ))}
+      </TextField>
+
+      {runtime === 'none' && (sandbox.image || sandbox.env || sandbox.mounts?.length || sandbox.dockerfile !== undefined) && (
+          <Alert severity="info" sx={{ mb: 2 }}>The options below only take effect once a runtime is selected.</Alert>
+      )}
+
+      <TextField
+          label="Image"
+          placeholder="my-org/gemini-sandbox:latest"
+          value={sandbox.image ?? ''}
+          onChange={(e) => updateSandbox({ image: e.target.value || undefined })}
+          error={Boolean(errors.image)}
+          helperText={errors.image ?? 'GEMINI_SANDBOX_IMAGE. Leave empty to use the default Gemini CLI sandbox image.'}
+          fullWidth
+          size="small"
+          sx={{ mb: 2 }}
+      />
+
+      <SchemaField
+          name="env"
+          schema={{
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              title: 'Environment',
+              description: 'SANDBOX_ENV: variables set inside the container.',
+          }}
+          value={sandbox.env}
+          onChange={(env) => updateSandbox({ env: env as Record<string, string> | undefined })}
+          issues={[]}
+          path={['env']}
+      />
+      {errors.env && <FormHelperText error sx={{ mt: -1, mb: 2 }}>{errors.env}</FormHelperText>}
+
+      <StringListField
+          label="Mounts"
+          placeholder="/host/path:/container/path:ro"
+          values={sandbox.mounts ?? []}
+          error={errors.mounts}
+          onChange={(mounts) => updateSandbox({ mounts: mounts.length > 0 ? mounts : undefined })}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">Custom Image ({SANDBOX_DOCKERFILE_PATH})</Typography>
+        {sandbox.dockerfile === undefined ? (
+            <Button size="small" startIcon={<AddIcon />} onClick={() => updateSandbox({ dockerfile: SANDBOX_DOCKERFILE_TEMPLATE })}>
+                Add Dockerfile
+            </Button>
+        ) : (
+            <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={() => updateSandbox({ dockerfile: undefined })}>
+                Remove
+            </Button>
+        )}
+      </Box>
+      {sandbox.dockerfile === undefined ? (
+          <Typography variant="body2" color="text.secondary">
+              Extend the default sandbox image with the tools your project needs.
+          </Typography>
+      ) : (
+          <TextField
+              multiline
+              minRows={8}
+              fullWidth
+              value={sandbox.dockerfile}
+              onChange={(e) => updateSandbox({ dockerfile: e.target.value })}
+              helperText="Built automatically when Gemini CLI runs with BUILD_SANDBOX=1."
+              slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.85rem' } } }}
+          />
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,348 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  Tooltip,
+  IconButton,
+  Autocomplete,
+  Button,
+} from '@mui/material';
+import { Info as InfoIcon, Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import type { JsonSchema, ValidationIssue } from '../utils/jsonSchema';
+import StringListField from './StringListField';
+import KeyValueField from './KeyValueField';
+import FieldIssue from './FieldIssue';
+
+type Path = (string | number)[];
+
+interface SchemaFieldProps {
+  name: string;
+  schema: JsonSchema;
+  value: unknown;
+  /** Called with `undefined` when the field is cleared, which removes the key from settings.json. */
+  onChange: (value: unknown) => void;
+  issues: ValidationIssue[];
+  path: Path;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typesOf = (schema: JsonSchema) => [schema.type ?? []].flat();
+
+// Drops cleared keys and collapses an empty object to "not set".
+const withoutEmpty = (record: Record<string, unknown>) => {
+  const entries = Object.entries(record).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+function FieldLabel({ label, description }: { label: string; description?: string }) {
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+      <Typography variant="subtitle2">{label}</Typography>
+      {description && (
+          <Tooltip title={description}>
+              <IconButton size="small"><InfoIcon fontSize="small" /></IconButton>
+          </Tooltip>
+      )}
+    </Box>
+  );
+}
+
+// Key/value rows kept locally so half-typed rows (no key yet) survive until they are complete.
+function StringMapField({ label, value, onChange }: { label: React.ReactNode; value: unknown; onChange: (value: unknown) => void }) {
+  const toRows = (v: unknown) => Object.entries(isRecord(v) ? v : {}).map(([k, val]) => [k, String(val)] as [string, string]);
+  const [rows, setRows] = React.useState(() => toRows(value));
+  const [synced, setSynced] = React.useState(value);
+  if (value !== synced) {
+      // Changed from outside (undo, import): start over from the stored value.
+      setSynced(value);
+      setRows(toRows(value));
+  }
+
+  const handleChange = (next: [string, string][]) => {
+      const record = withoutEmpty(Object.fromEntries(next.filter(([k]) => k.trim()).map(([k, v]) => [k.trim(), v])));
+      setRows(next);
+      setSynced(record);
+      onChange(record);
+  };
+
+  return <KeyValueField label={label} keyPlaceholder="Name" valuePlaceholder="Value" rows={rows} onChange={handleChange} />;
+}
+
+// Raw JSON editing for values the schema does not describe in detail.
+function JsonField({ label, value, onChange }: { label: React.ReactNode; value: unknown; onChange: (value: unknown) => void }) {
+  const format = (v: unknown) => (v === undefined ? '' : JSON.stringify(v, null, 2));
+  const [text, setText] = React.useState(() => format(value));
+  const [synced, setSynced] = React.useState(value);
+  const [error, setError] = React.useState<string | null>(null);
+  if (value !== synced) {
+      setSynced(value);
+      setText(format(value));
+      setError(null);
+  }
+
+  const handleChange = (next: string) => {
+      setText(next);
+      try {
+          const parsed = next.trim() ? JSON.parse(next) : undefined;
+          setError(null);
+          setSynced(parsed);
+          onChange(parsed);
+      } catch (e) {
+          setError((e as Error).message);
+      }
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {label}
+      <TextField
+          multiline
+          minRows={2}
+          fullWidth
+          size="small"
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          error={Boolean(error)}
+          helperText={error ?? 'JSON value'}
+          slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.85rem' } } }}
+      />
+    </Box>
+  );
+}
+
+// An object whose keys are user-chosen names (e.g. tool names) and whose values share one schema.
+function RecordField({ label, schema, value, onChange, issues, path }: Omit<SchemaFieldProps, 'name'> & { label: React.ReactNode }) {
+  const record = isRecord(value) ? value : {};
+  const itemSchema = schema.additionalProperties as JsonSchema;
+  const [newKey, setNewKey] = React.useState('');
+
+  const add = () => {
+      const key = newKey.trim();
+      if (!key || key in record) return;
+      onChange({ ...record, [key]: {} });
+      setNewKey('');
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {label}
+      {Object.entries(record).map(([key, item]) => (
+          <Box key={key} sx={{ pl: 2, mb: 1, borderLeft: 2, borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{key}</Typography>
+                  <IconButton size="small" onClick={() => onChange(withoutEmpty({ ...record, [key]: undefined }))}>
+                      <DeleteIcon fontSize="small" />
+                  </IconButton>
+              </Box>
+              <SchemaField
+                  name=""
+                  schema={itemSchema}
+                  value={item}
+                  onChange={(next) => onChange({ ...record, [key]: next ?? {} })}
+                  issues={issues}
+                  path={[...path, key]}
+              />
+          </Box>
+      ))}
+      <Box data-local-undo sx={{ display: 'flex', gap: 1 }}>
+          <TextField size="small" placeholder="Name" value={newKey} onChange={(e) => setNewKey(e.target.value)} fullWidth />
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={add}>Add</Button>
+      </Box>
+    </Box>
+  );
+}
+
+/** Renders the control that fits a schema node: switch, select, text, number, list, map or nested group. */
+export default function SchemaField({ name, schema, value, onChange, issues, path }: SchemaFieldProps) {
+  const title = schema.title ?? name;
+  const label = <FieldLabel label={title} description={schema.description} />;
+  const types = typesOf(schema);
+  const isContainer = types.includes('object');
+  const issue = <FieldIssue issues={issues} path={path} exact={isContainer} />;
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf;
+    // A string or a list of strings: edit as a list, saving a single entry as a plain string.
+    if (branches.some((b) => typesOf(b).includes('array'))) {
+      const values = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+      return (
+        <Box>
+          <StringListField
+              label={label}
+              placeholder={title}
+              values={values}
+              onChange={(next) => onChange(next.length === 0 ? undefined : next.length === 1 ? next[0] : next)}
+          />
+          {issue}
+        </Box>
+      );
+    }
+    // Otherwise offer every boolean and enum option in one select.
+    const options = branches.flatMap((b) => (b.enum ? b.enum : typesOf(b).includes('boolean') ? [true, false] : []));
+    return (
+      <Box sx={{ mb: 2 }}>
+        <TextField
+            select
+            label={title}
+            value={value === undefined ? '' : JSON.stringify(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : JSON.parse(e.target.value))}
+            fullWidth
+            size="small"
+            slotProps={{ inputLabel: { shrink: true } }}
+            SelectProps={{ displayEmpty: true }}
+        >
+            <MenuItem value=""><em>Not set</em></MenuItem>
+            {options.map((option) => (
+                <MenuItem key={JSON.stringify(option)} value={JSON.stringify(option)}>{String(option)}</MenuItem>
+            ))}
+        </TextField>
+        {schema.description && <Typography variant="caption" color="text.secondary">{schema.description}</Typography>}
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('boolean')) {
+    return (
+      <Box sx={{ mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <FormControlLabel
+                control={<Switch checked={Boolean(value ?? schema.default ?? false)} onChange={(e) => onChange(e.target.checked)} />}
+                label={title}
+            />
+            {schema.description && (
+                <Tooltip title={schema.description}>
+                    <IconButton size="small"><InfoIcon fontSize="small" /></IconButton>
+                </Tooltip>
+            )}
+        </Box>
+        {issue}
+      </Box>
+    );
+  }
+
+  if (schema.enum) {
+    return (
+      <Box sx={{ mb: 2 }}>
+        <TextField
+            select
+            label={title}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+            fullWidth
+            size="small"
+            helperText={schema.description}
+            slotProps={{ inputLabel: { shrink: true } }}
+            SelectProps={{ displayEmpty: true }}
+        >
+            <MenuItem value=""><em>Not set</em></MenuItem>
+            {schema.enum.map((option) => (
+                <MenuItem key={String(option)} value={String(option)}>{String(option)}</MenuItem>
+            ))}
+        </TextField>
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('string')) {
+    const text = value === undefined ? '' : String(value);
+    const handleText = (next: string) => onChange(next === '' ? undefined : next);
+    return (
+      <Box sx={{ mb: 2 }}>
+        {schema.examples ? (
+            <Autocomplete
+                freeSolo
+                options={schema.examples.map(String)}
+                inputValue={text}
+                onInputChange={(_, next) => handleText(next)}
+                renderInput={(params) => <TextField {...params} label={title} size="small" helperText={schema.description} />}
+            />
+        ) : (
+            <TextField label={title} value={text} onChange={(e) => handleText(e.target.value)} fullWidth size="small" helperText={schema.description} />
+        )}
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('number') || types.includes('integer')) {
+    return (
+      <Box sx={{ mb: 2 }}>
+        <TextField
+            type="number"
+            label={title}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            fullWidth
+            size="small"
+            helperText={schema.description}
+            slotProps={{ htmlInput: { min: schema.minimum, max: schema.maximum, step: types.includes('integer') ? 1 : 'any' } }}
+        />
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('array') && schema.items && typesOf(schema.items).includes('string')) {
+    return (
+      <Box>
+        <StringListField
+            label={label}
+            placeholder={title}
+            values={Array.isArray(value) ? value.map(String) : []}
+            onChange={(next) => onChange(next.length > 0 ? next : undefined)}
+        />
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('object') && schema.properties) {
+    const record = isRecord(value) ? value : {};
+    return (
+      <Box sx={{ mb: 2 }}>
+        {name && label}
+        <Box sx={{ pl: name ? 2 : 0, borderLeft: name ? 2 : 0, borderColor: 'divider' }}>
+            {Object.entries(schema.properties).map(([key, child]) => (
+                <SchemaField
+                    key={key}
+                    name={key}
+                    schema={child}
+                    value={record[key]}
+                    onChange={(next) => onChange(withoutEmpty({ ...record, [key]: next }))}
+                    issues={issues}
+                    path={[...path, key]}
+                />
+            ))}
+        </Box>
+        {issue}
+      </Box>
+    );
+  }
+
+  if (types.includes('object') && typeof schema.additionalProperties === 'object') {
+    const itemTypes = typesOf(schema.additionalProperties);
+    return (
+      <>
+        {itemTypes.includes('string')
+            ? <StringMapField label={label} value={value} onChange={onChange} />
+            : <RecordField label={label} schema={schema} value={value} onChange={onChange} issues={issues} path={path} />}
+        {issue}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <JsonField label={label} value={value} onChange={onChange} />
+      {issue}
+    </>
+  );
+}
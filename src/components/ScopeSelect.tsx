@@ -0,0 +1,29 @@
+import { MenuItem, TextField, Tooltip } from '@mui/material';
+import type { SettingsScope } from '../types';
+import { SETTINGS_SCOPES, SETTINGS_SCOPE_LABELS, SETTINGS_SCOPE_PATHS } from '../utils/settingsScopes';
+
+interface ScopeSelectProps {
+  value: SettingsScope;
+  onChange: (scope: SettingsScope) => void;
+}
+
+/** Compact picker for the settings file a setting or MCP server is written to. */
+export default function ScopeSelect({ value, onChange }: ScopeSelectProps) {
+  return (
+    <Tooltip title={`Written to ${SETTINGS_SCOPE_PATHS[value]}`} placement="left">
+      <TextField
+          select
+          variant="standard"
+          size="small"
+          value={value}
+          onChange={(e) => onChange(e.target.value as SettingsScope)}
+          sx={{ minWidth: 100, flexShrink: 0 }}
+          slotProps={{ input: { disableUnderline: true, sx: { fontSize: '0.8rem', color: value === 'workspace' ? 'text.secondary' : 'primary.main' } } }}
+      >
+          {SETTINGS_SCOPES.map((scope) => (
+              <MenuItem key={scope} value={scope}>{SETTINGS_SCOPE_LABELS[scope]}</MenuItem>
+          ))}
+      </TextField>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { Settings, SettingsScope } from '../types';
+import type { ValidationIssue } from '../utils/jsonSchema';
+import { scopeOfPath } from '../utils/settingsScopes';
+
+interface AnnotatedLine {
+  line: string;
+  path?: string[];
+  origin?: string;
+  scope?: SettingsScope;
+  issues: ValidationIssue[];
+}
+
+const isPrefix = (prefix: (string | number)[], path: (string | number)[]) =>
+  prefix.length <= path.length && prefix.every((part, idx) => part === path[idx]);
+
+// Pairs each line of the exported JSON with the extension that contributed it, the file it
+// is written to (when `scopes` is given) and the validation issues for that key. Issues
+// inside arrays land on the array's key line.
+const annotateSettingsJson = (
+  settings: Settings,
+  origins: Record<string, string>,
+  issues: ValidationIssue[],
+  scopes?: Record<string, SettingsScope>
+): AnnotatedLine[] => {
+  const stack: string[] = [];
+  const lines: AnnotatedLine[] = JSON.stringify(settings, null, 2).split('\n').map((line) => {
+    const key = /^ *("(?:[^"\\]|\\.)*"): /.exec(line)?.[1];
+    if (!key) return { line, issues: [] };
+    const depth = (line.length - line.trimStart().length) / 2;
+    stack.length = depth - 1;
+    stack.push(JSON.parse(key));
+    const path = [...stack];
+    return {
+      line,
+      path,
+      origin: path.length === 2 && path[0] === 'mcpServers' ? origins[path[1]] : undefined,
+      scope: scopes && scopeOfPath(path, scopes),
+      issues: [],
+    };
+  });
+
+  issues.forEach((issue) => {
+    let best = 0;
+    lines.forEach((l, idx) => {
+      if (l.path && isPrefix(l.path, issue.path) && l.path.length > (lines[best].path?.length ?? 0)) best = idx;
+    });
+    lines[best].issues.push(issue);
+  });
+  return lines;
+};
+
+interface SettingsPreviewProps {
+  settings: Settings;
+  origins: Record<string, string>;
+  issues: ValidationIssue[];
+  /** When given, every setting and MCP server is tagged with the file it comes from. */
+  scopes?: Record<string, SettingsScope>;
+}
+
+export default function SettingsPreview({ settings, origins, issues, scopes }: SettingsPreviewProps) {
+  return (
+    <>
+      {annotateSettingsJson(settings, origins, issues, scopes).map(({ line, origin, scope, issues: lineIssues }, idx) => (
+          <React.Fragment key={idx}>
+              {line}
+              {scope && <span style={{ color: '#808080' }}>{`  [${scope}]`}</span>}
+              {origin && <span style={{ color: '#6a9955' }}>{`  ← from extension "${origin}"`}</span>}
+              {lineIssues.map((issue, i) => (
+                  <span key={i} style={{ color: issue.severity === 'error' ? '#f48771' : '#cca700' }}>
+                      {`  ${issue.severity === 'error' ? '✖' : '⚠'} ${issue.message}`}
+                  </span>
+              ))}
+              {'\n'}
+          </React.Fragment>
+      ))}
+    </>
+  );
+}
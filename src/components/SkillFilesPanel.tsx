@@ -0,0 +1,376 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  IconButton,
+  Alert,
+  Checkbox,
+  FormControlLabel,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  UploadFile as UploadIcon,
+  CreateNewFolder as NewFolderIcon,
+  Folder as FolderIcon,
+  FolderOpen as FolderOpenIcon,
+  DragIndicator as DragIcon,
+  Link as LinkIcon,
+} from '@mui/icons-material';
+import type { SkillFile } from '../types';
+import { formatBytes } from '../utils/fileNames';
+import {
+  MAX_SKILL_FILE_BYTES,
+  skillFileFromBytes,
+  checkSkillFileSize,
+  skillFileSize,
+  skillFileImageUrl,
+  isBinarySkillFile,
+  normalizeSkillFilePath,
+  skillFileDirectory,
+  skillFileBaseName,
+  skillFileFolders,
+  skillFilePathErrors,
+  validateSkillFilePath,
+} from '../utils/skillFiles';
+
+interface SkillFilesPanelProps {
+  files: SkillFile[];
+  onChange: (files: SkillFile[]) => void;
+}
+
+const INDENT = 3;
+
+const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+interface SkillFileEditorProps {
+  file: SkillFile;
+  error?: string;
+  onChange: (file: SkillFile) => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+function SkillFileEditor({ file, error, onChange, onRemove, onDragStart, onDragEnd }: SkillFileEditorProps) {
+  const imageUrl = skillFileImageUrl(file);
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+        <Tooltip title="Drag onto a folder to move">
+            <Box
+                draggable
+                onDragStart={(e: React.DragEvent) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    onDragStart();
+                }}
+                onDragEnd={onDragEnd}
+                sx={{ cursor: 'grab', display: 'flex', color: 'text.secondary' }}
+            >
+                <DragIcon />
+            </Box>
+        </Tooltip>
+        <TextField
+            label="Path"
+            size="small"
+            value={file.name}
+            onChange={(e) => onChange({ ...file, name: e.target.value })}
+            error={Boolean(error)}
+            helperText={error}
+            sx={{ width: 260 }}
+        />
+        <FormControlLabel
+            control={<Checkbox size="small" checked={Boolean(file.executable)} onChange={(e) => onChange({ ...file, executable: e.target.checked || undefined })} />}
+            label="Executable"
+        />
+        <Typography variant="caption" color="text.secondary">{formatBytes(skillFileSize(file))}</Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        <Tooltip title="Copy a Markdown link for SKILL.md">
+            <IconButton onClick={() => navigator.clipboard.writeText(`[${skillFileBaseName(file.name)}](${encodeURI(file.name)})`)}>
+                <LinkIcon />
+            </IconButton>
+        </Tooltip>
+        <IconButton color="error" onClick={onRemove}>
+            <DeleteIcon />
+        </IconButton>
+      </Box>
+      {imageUrl && (
+          <Box component="img" src={imageUrl} alt={file.name} sx={{ maxWidth: '100%', maxHeight: 160, display: 'block', mb: isBinarySkillFile(file) ? 0 : 2 }} />
+      )}
+      {isBinarySkillFile(file) ? (
+          !imageUrl && (
+              <Typography variant="body2" color="text.secondary">
+                  Binary file, written to the bundle as-is.
+              </Typography>
+          )
+      ) : (
+          <TextField
+              label="File Content"
+              multiline
+              minRows={4}
+              maxRows={12}
+              fullWidth
+              value={file.content}
+              onChange={(e) => onChange({ ...file, content: e.target.value })}
+              sx={{ fontFamily: 'monospace' }}
+          />
+      )}
+    </Paper>
+  );
+}
+
+// The Files tab of the skill editor, as the folder tree of .skillz/<skill>/. Text files are
+// edited inline, anything can be uploaded, and files are dragged between folders to move them.
+export default function SkillFilesPanel({ files, onChange }: SkillFilesPanelProps) {
+  const [rejected, setRejected] = React.useState<string[]>([]);
+  // Folders without files are not saved (the zip could not hold them); they exist until a file lands in them.
+  const [emptyFolders, setEmptyFolders] = React.useState<string[]>([]);
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
+  const [newFolder, setNewFolder] = React.useState<{ parent: string; draft: string } | null>(null);
+  const [draggedFileId, setDraggedFileId] = React.useState<string | null>(null);
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+  const uploadFolder = React.useRef('');
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const folders = [...new Set([...skillFileFolders(files), ...emptyFolders])].sort();
+  const errors = skillFilePathErrors(files);
+  const newFolderError = newFolder && newFolder.draft.trim()
+      ? validateSkillFilePath(joinPath(newFolder.parent, newFolder.draft.trim()), files.map((f) => f.name))
+        ?? (folders.includes(joinPath(newFolder.parent, newFolder.draft.trim())) ? 'This folder already exists.' : null)
+      : null;
+
+  const handleUpload = async (uploads: File[], folder: string) => {
+      const problems: string[] = [];
+      let next = files;
+      for (const upload of uploads) {
+          const problem = checkSkillFileSize(upload.name, upload.size);
+          if (problem) {
+              problems.push(problem);
+              continue;
+          }
+          const path = joinPath(folder, upload.name);
+          let bytes: Uint8Array;
+          try {
+              bytes = new Uint8Array(await upload.arrayBuffer());
+          } catch (e) {
+              // e.g. the file was moved or deleted after it was picked.
+              problems.push(`"${upload.name}" could not be read: ${(e as Error).message}`);
+              continue;
+          }
+          const added = skillFileFromBytes(path, bytes);
+          // Uploading a file with an existing path replaces its content.
+          const existing = next.find((f) => f.name === path);
+          next = existing ? next.map((f) => (f === existing ? { ...added, id: existing.id } : f)) : [...next, added];
+      }
+      setRejected(problems);
+      onChange(next);
+  };
+
+  const handleAddFile = (folder: string) => {
+      const taken = files.map((f) => f.name);
+      let name = joinPath(folder, 'script.py');
+      for (let n = 2; taken.includes(name); n++) name = joinPath(folder, `script-${n}.py`);
+      onChange([...files, { id: crypto.randomUUID(), name, content: '# Helper script' }]);
+  };
+
+  const handleCreateFolder = () => {
+      if (!newFolder || !newFolder.draft.trim() || newFolderError) return;
+      const path = joinPath(newFolder.parent, normalizeSkillFilePath(newFolder.draft));
+      setEmptyFolders([...emptyFolders, path]);
+      setNewFolder(null);
+  };
+
+  const handleRemoveFolder = (folder: string) =>
+      setEmptyFolders(emptyFolders.filter((f) => f !== folder && !f.startsWith(`${folder}/`)));
+
+  const toggleCollapsed = (folder: string) => {
+      const next = new Set(collapsed);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      setCollapsed(next);
+  };
+
+  // Folders accept both files dragged in from the desktop and file cards dragged within the tree.
+  const dropProps = (folder: string) => ({
+      onDragOver: (e: React.DragEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setDropTarget(folder);
+      },
+      onDragLeave: () => setDropTarget(null),
+      onDrop: (e: React.DragEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setDropTarget(null);
+          if (draggedFileId) {
+              onChange(files.map((f) => (f.id === draggedFileId ? { ...f, name: joinPath(folder, skillFileBaseName(f.name)) } : f)));
+              setDraggedFileId(null);
+          } else if (e.dataTransfer.files.length > 0) {
+              handleUpload(Array.from(e.dataTransfer.files), folder);
+          }
+      },
+  });
+
+  const renderFiles = (folder: string) =>
+      files
+          .filter((file) => skillFileDirectory(file.name) === folder)
+          .map((file) => (
+              <SkillFileEditor
+                  key={file.id}
+                  file={file}
+                  error={errors.get(file.id)}
+                  onChange={(updated) => onChange(files.map((f) => (f.id === file.id ? updated : f)))}
+                  onRemove={() => onChange(files.filter((f) => f.id !== file.id))}
+                  onDragStart={() => setDraggedFileId(file.id)}
+                  onDragEnd={() => setDraggedFileId(null)}
+              />
+          ));
+
+  const renderNewFolderField = (parent: string) =>
+      newFolder?.parent === parent && (
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mb: 2 }}>
+              <TextField
+                  label={parent ? `New folder in ${parent}/` : 'New folder'}
+                  placeholder="scripts"
+                  value={newFolder.draft}
+                  onChange={(e) => setNewFolder({ parent, draft: e.target.value })}
+                  onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleCreateFolder();
+                      if (e.key === 'Escape') setNewFolder(null);
+                  }}
+                  error={Boolean(newFolderError)}
+                  helperText={newFolderError ?? 'e.g. scripts, references or assets'}
+                  size="small"
+                  autoFocus
+              />
+              <Button onClick={handleCreateFolder} disabled={!newFolder.draft.trim() || Boolean(newFolderError)}>Create</Button>
+              <Button onClick={() => setNewFolder(null)}>Cancel</Button>
+          </Box>
+      );
+
+  const renderFolder = (folder: string): React.ReactNode => {
+    const open = !collapsed.has(folder);
+    const isEmpty = !files.some((f) => f.name.startsWith(`${folder}/`));
+    return (
+      <Box key={folder}>
+        <Box
+            {...dropProps(folder)}
+            sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                mb: 1,
+                px: 1,
+                borderRadius: 1,
+                bgcolor: dropTarget === folder ? 'action.selected' : 'action.hover',
+            }}
+        >
+          <IconButton size="small" onClick={() => toggleCollapsed(folder)}>
+              {open ? <FolderOpenIcon fontSize="small" /> : <FolderIcon fontSize="small" />}
+          </IconButton>
+          <Typography variant="subtitle2" sx={{ fontFamily: 'monospace', flexGrow: 1 }}>{skillFileBaseName(folder)}/</Typography>
+          <Tooltip title="New folder">
+              <IconButton size="small" onClick={() => setNewFolder({ parent: folder, draft: '' })}><NewFolderIcon fontSize="small" /></IconButton>
+          </Tooltip>
+          <Tooltip title="Add text file">
+              <IconButton size="small" onClick={() => handleAddFile(folder)}><AddIcon fontSize="small" /></IconButton>
+          </Tooltip>
+          <Tooltip title="Upload into this folder">
+              <IconButton
+                  size="small"
+                  onClick={() => {
+                      uploadFolder.current = folder;
+                      inputRef.current?.click();
+                  }}
+              >
+                  <UploadIcon fontSize="small" />
+              </IconButton>
+          </Tooltip>
+          {isEmpty && (
+              <Tooltip title="Remove empty folder">
+                  <IconButton size="small" onClick={() => handleRemoveFolder(folder)}><DeleteIcon fontSize="small" /></IconButton>
+              </Tooltip>
+          )}
+        </Box>
+        {open && (
+            <Box sx={{ ml: INDENT }}>
+                {renderNewFolderField(folder)}
+                {folders.filter((f) => skillFileDirectory(f) === folder).map(renderFolder)}
+                {renderFiles(folder)}
+            </Box>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box {...dropProps('')}>
+      <Box
+          sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 2,
+              mb: 2,
+              p: 2,
+              border: '2px dashed',
+              borderColor: dropTarget === '' ? 'primary.main' : 'divider',
+              borderRadius: 1,
+              bgcolor: dropTarget === '' ? 'action.hover' : undefined,
+          }}
+      >
+        <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+            Drop images, PDFs, scripts or other files here or onto a folder (up to {formatBytes(MAX_SKILL_FILE_BYTES)} each).
+        </Typography>
+        <input
+            ref={inputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={(e) => {
+                handleUpload(Array.from(e.target.files ?? []), uploadFolder.current);
+                e.target.value = '';
+            }}
+        />
+        <Button
+            startIcon={<UploadIcon />}
+            variant="outlined"
+            onClick={() => {
+                uploadFolder.current = '';
+                inputRef.current?.click();
+            }}
+        >
+            Upload Files
+        </Button>
+        <Button startIcon={<NewFolderIcon />} variant="outlined" onClick={() => setNewFolder({ parent: '', draft: '' })}>
+            New Folder
+        </Button>
+        <Button startIcon={<AddIcon />} variant="outlined" onClick={() => handleAddFile('')}>
+            Add Resource File
+        </Button>
+      </Box>
+
+      {rejected.map((problem) => (
+          <Alert key={problem} severity="warning" onClose={() => setRejected(rejected.filter((p) => p !== problem))} sx={{ mb: 2 }}>
+              {problem}
+          </Alert>
+      ))}
+
+      {renderNewFolderField('')}
+
+      {files.length === 0 && folders.length === 0 ? (
+          <Typography color="text.secondary" align="center" sx={{ py: 4 }}>
+              No helper files added. Add scripts, references or assets if your skill needs them.
+          </Typography>
+      ) : (
+          <>
+              {folders.filter((f) => !f.includes('/')).map(renderFolder)}
+              {renderFiles('')}
+          </>
+      )}
+    </Box>
+  );
+}
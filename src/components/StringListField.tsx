@@ -0,0 +1,45 @@
+import React from 'react';
+import { Box, Typography, TextField, Button, Chip, FormHelperText } from '@mui/material';
+
+interface StringListFieldProps {
+  label: React.ReactNode;
+  placeholder: string;
+  values: string[];
+  error?: string;
+  onChange: (values: string[]) => void;
+}
+
+// Text input plus removable chips, for settings that are lists of strings.
+export default function StringListField({ label, placeholder, values, error, onChange }: StringListFieldProps) {
+  const [input, setInput] = React.useState('');
+  const add = () => {
+      if (!input.trim()) return;
+      onChange([...values, input.trim()]);
+      setInput('');
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{label}</Typography>
+      <Box data-local-undo sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <TextField
+            size="small"
+            placeholder={placeholder}
+            fullWidth
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') { e.preventDefault(); add(); }
+            }}
+        />
+        <Button variant="outlined" onClick={add}>Add</Button>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {values.map((value, idx) => (
+            <Chip key={idx} label={value} onDelete={() => onChange(values.filter((_, i) => i !== idx))} />
+        ))}
+      </Box>
+      {error && <FormHelperText error>{error}</FormHelperText>}
+    </Box>
+  );
+}
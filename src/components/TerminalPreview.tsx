@@ -1,32 +1,193 @@
 import React from 'react';
 import { Box, Typography } from '@mui/material';
+import type { CustomTheme, Settings } from '../types';
+import { resolveTheme } from '../utils/themes';
+import { useAppStore } from '../store/appStore';
+import { parseInvocation, findCommand, expandCommandPrompt } from '../utils/commandPrompt';
+import { BUILT_IN_TOOLS } from '../data/builtInTools';
+import type { BuiltInTool } from '../data/builtInTools';
 
 interface TerminalPreviewProps {
   themeName: string;
+  customThemes?: Record<string, CustomTheme>;
+  /** Replaces the canned exchange with a session driven by the current configuration. */
+  interactive?: boolean;
 }
 
-const THEME_COLORS: Record<string, { bg: string; fg: string; accent: string; prompt: string }> = {
-  light: { bg: '#ffffff', fg: '#202124', accent: '#1a73e8', prompt: '#202124' },
-  dark: { bg: '#202124', fg: '#e8eaed', accent: '#8ab4f8', prompt: '#e8eaed' },
-  GitHub: { bg: '#0d1117', fg: '#c9d1d9', accent: '#58a6ff', prompt: '#c9d1d9' },
-  system: { bg: '#1e1e1e', fg: '#d4d4d4', accent: '#4ec9b0', prompt: '#d4d4d4' }, // Fallback to dark-ish
-};
+const line = { fontFamily: 'monospace', whiteSpace: 'pre-wrap' } as const;
 
-export default function TerminalPreview({ themeName }: TerminalPreviewProps) {
-  const theme = THEME_COLORS[themeName] || THEME_COLORS.system;
+// Matches tool names the way excludeTools and coreTools do, including "ShellTool(git status)" style entries.
+const matchesTool = (entries: string[] | undefined, tool: BuiltInTool) =>
+  (entries ?? []).some((entry) => {
+    const base = entry.replace(/\(.*\)$/, '');
+    return base === tool.name || base === tool.displayName || base === `${tool.displayName}Tool`;
+  });
+
+const isToolEnabled = (settings: Settings, tool: BuiltInTool) =>
+  !matchesTool(settings.excludeTools, tool) && (!settings.coreTools?.length || matchesTool(settings.coreTools, tool));
+
+type OutputLine = { text: string; tone?: 'muted' | 'accent' | 'error' | 'success' | 'prompt' };
+
+interface Exchange {
+  input: string;
+  output: OutputLine[];
+}
+
+function SimulatedSession({ theme }: { theme: CustomTheme }) {
+  const { commands, contextSections, skills, settings } = useAppStore();
+  const [input, setInput] = React.useState('');
+  const [transcript, setTranscript] = React.useState<Exchange[]>([]);
+
+  const loadedSections = contextSections.filter((s) => s.enabled);
+  const excludedTools = BUILT_IN_TOOLS.filter((tool) => !isToolEnabled(settings, tool));
+  const toneColor = { muted: theme.Gray, accent: theme.AccentBlue, error: theme.AccentRed, success: theme.AccentGreen, prompt: theme.Foreground };
+
+  const run = (text: string): OutputLine[] => {
+    const invocation = parseInvocation(text);
+    if (!invocation) return [{ text: '(sent to Gemini as typed)', tone: 'muted' }, { text, tone: 'prompt' }];
+
+    // Custom commands take precedence over built-ins of the same name, as in the CLI.
+    const command = findCommand(commands, invocation.name);
+    if (command) {
+      return [
+        { text: `Prompt sent to Gemini for /${command.name}:`, tone: 'muted' },
+        { text: expandCommandPrompt(command.prompt, invocation), tone: 'prompt' },
+      ];
+    }
+
+    switch (invocation.name) {
+      case 'help':
+        return commands.length === 0
+          ? [{ text: 'No custom commands defined.', tone: 'muted' }]
+          : commands.map((cmd) => ({ text: `/${cmd.name}${cmd.description ? `  ${cmd.description}` : ''}` }));
+      case 'memory':
+        return loadedSections.length === 0
+          ? [{ text: 'GEMINI.md is empty.', tone: 'muted' }]
+          : loadedSections.map((s) => ({ text: `# ${s.title} (${s.content.length} chars)` }));
+      case 'tools':
+        return BUILT_IN_TOOLS.map((tool) =>
+          isToolEnabled(settings, tool)
+            ? { text: `  ${tool.displayName} (${tool.name})` }
+            : { text: `  ${tool.displayName} (${tool.name}) - excluded`, tone: 'muted' as const });
+    }
+    return [{ text: `Unknown command: /${invocation.name}`, tone: 'error' }];
+  };
+
+  const handleSubmit = () => {
+      const text = input.trim();
+      setInput('');
+      if (!text) return;
+      if (text === '/clear' && !findCommand(commands, 'clear')) {
+          setTranscript([]);
+          return;
+      }
+      // Only the last few exchanges are kept, like a scrolled terminal.
+      setTranscript([...transcript, { input: text, output: run(text) }].slice(-5));
+  };
+
+  return (
+    <>
+      <Typography variant="body2" component="div" sx={{ ...line, color: theme.Gray }}>
+        {loadedSections.length > 0
+            ? `Loaded GEMINI.md: ${loadedSections.map((s) => s.title).join(', ')}`
+            : 'No GEMINI.md context loaded.'}
+        {skills.map((skill) => `\nSkill ${skill.name}: ${skill.description || '(no description)'}`).join('')}
+        {excludedTools.length > 0 && `\nExcluded tools: ${excludedTools.map((t) => t.name).join(', ')}`}
+        {commands.length > 0 && `\nCustom commands: ${commands.map((c) => `/${c.name}`).join(', ')}`}
+        {'\nTry /help, /memory, /tools or one of your commands.'}
+      </Typography>
+
+      {transcript.map((exchange, idx) => (
+          <Box key={idx} sx={{ mt: 1 }}>
+              <Typography variant="body2" component="div" sx={line}>
+                  <span style={{ color: theme.AccentBlue }}>&gt;</span> {exchange.input}
+              </Typography>
+              {exchange.output.map((out, i) => (
+                  <Typography
+                      key={i}
+                      variant="body2"
+                      component="div"
+                      sx={{
+                          ...line,
+                          color: toneColor[out.tone ?? 'prompt'],
+                          ...(out.tone === 'prompt' && { borderLeft: 2, borderColor: theme.Comment, pl: 1, my: 0.5 }),
+                      }}
+                  >
+                      {out.text}
+                  </Typography>
+              ))}
+          </Box>
+      ))}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+        <span style={{ color: theme.AccentBlue }}>&gt;</span>
+        <Box
+            component="input"
+            data-local-undo
+            value={input}
+            placeholder={commands.length > 0 ? `/${commands[0].name} ...` : 'Type a message or /help'}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInput(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => e.key === 'Enter' && handleSubmit()}
+            sx={{
+                flexGrow: 1,
+                bgcolor: 'transparent',
+                border: 'none',
+                outline: 'none',
+                color: theme.Foreground,
+                fontFamily: 'monospace',
+                fontSize: '0.875rem',
+                '&::placeholder': { color: theme.Gray, opacity: 0.7 },
+            }}
+        />
+      </Box>
+    </>
+  );
+}
+
+function SampleExchange({ theme }: { theme: CustomTheme }) {
+  return (
+    <>
+      <Typography variant="body2" component="div" sx={line}>
+        <span style={{ color: theme.AccentBlue }}>gemini&gt;</span> Write a function to fibonacci
+      </Typography>
+
+      <Typography variant="body2" component="div" sx={{ ...line, whiteSpace: 'pre', mt: 1 }}>
+        <span style={{ color: theme.Comment }}># Returns the n-th Fibonacci number</span>{'\n'}
+        <span style={{ color: theme.AccentBlue }}>def</span> <span style={{ color: theme.AccentCyan }}>fibonacci</span>(n: <span style={{ color: theme.LightBlue }}>int</span>):{'\n'}
+        {'  '}<span style={{ color: theme.AccentPurple }}>if</span> n &lt;= <span style={{ color: theme.AccentYellow }}>1</span>:{'\n'}
+        {'    '}<span style={{ color: theme.AccentPurple }}>return</span> n{'\n'}
+        {'  '}<span style={{ color: theme.AccentPurple }}>return</span> <span style={{ color: theme.AccentCyan }}>fibonacci</span>(n-<span style={{ color: theme.AccentYellow }}>1</span>) + <span style={{ color: theme.AccentCyan }}>fibonacci</span>(n-<span style={{ color: theme.AccentYellow }}>2</span>)
+      </Typography>
+
+      <Typography variant="body2" component="div" sx={{ ...line, whiteSpace: 'pre', mt: 1 }}>
+        <Box component="span" sx={{ display: 'block', bgcolor: theme.DiffRemoved }}>- print(<span style={{ color: theme.AccentGreen }}>"fib"</span>)</Box>
+        <Box component="span" sx={{ display: 'block', bgcolor: theme.DiffAdded }}>+ print(<span style={{ color: theme.AccentGreen }}>"fibonacci"</span>, fibonacci(<span style={{ color: theme.AccentYellow }}>10</span>))</Box>
+      </Typography>
+
+      <Typography variant="body2" component="div" sx={{ ...line, mt: 1 }}>
+        <span style={{ color: theme.AccentGreen }}>✔ Wrote fib.py</span>{'  '}
+        <span style={{ color: theme.AccentRed }}>✖ 1 test failed</span>
+      </Typography>
+    </>
+  );
+}
+
+export default function TerminalPreview({ themeName, customThemes, interactive = false }: TerminalPreviewProps) {
+  const theme = resolveTheme(themeName, customThemes);
 
   return (
     <Box
       sx={{
-        bgcolor: theme.bg,
-        color: theme.fg,
+        bgcolor: theme.Background,
+        color: theme.Foreground,
         p: 2,
         borderRadius: 2,
         fontFamily: 'monospace',
         border: '1px solid',
         borderColor: 'divider',
         minHeight: 150,
-        boxShadow: 3
+        boxShadow: 3,
+        overflowX: 'auto',
       }}
     >
       <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
@@ -34,25 +195,15 @@ export default function TerminalPreview({ themeName }: TerminalPreviewProps) {
         <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: '#ffbd2e' }} />
         <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: '#27c93f' }} />
       </Box>
-      
-      <Typography variant="body2" component="div" sx={{ fontFamily: 'monospace' }}>
-        <span style={{ color: theme.accent, fontWeight: 'bold' }}>user@gemini-cli</span>
+
+      <Typography variant="body2" component="div" sx={{ ...line, mb: 1 }}>
+        <span style={{ color: theme.AccentBlue, fontWeight: 'bold' }}>user@gemini-cli</span>
         <span>:</span>
-        <span style={{ color: '#a0a0a0' }}>~/project</span>
+        <span style={{ color: theme.Gray }}>~/project</span>
         <span>$ gemini</span>
       </Typography>
-      
-      <Typography variant="body2" component="div" sx={{ fontFamily: 'monospace', mt: 1 }}>
-        <span style={{ color: theme.accent }}>gemini&gt;</span> Write a function to fibonacci
-      </Typography>
 
-      <Typography variant="body2" component="div" sx={{ fontFamily: 'monospace', mt: 1, whiteSpace: 'pre' }}>
-{`def fibonacci(n):
-  if n <= 1:
-    return n
-  else:
-    return fibonacci(n-1) + fibonacci(n-2)`}
-      </Typography>
+      {interactive ? <SimulatedSession theme={theme} /> : <SampleExchange theme={theme} />}
     </Box>
   );
 }
@@ -0,0 +1,219 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  MenuItem,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Check as CheckIcon } from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+import type { CustomTheme } from '../types';
+import {
+  THEME_COLOR_GROUPS,
+  resolveTheme,
+  createCustomTheme,
+  validateThemeName,
+  parseHexColor,
+  checkThemeContrast,
+} from '../utils/themes';
+import type { ThemeColorField, ContrastCheck } from '../utils/themes';
+import { getSettingsScope } from '../utils/settingsScopes';
+import ScopeSelect from './ScopeSelect';
+import TerminalPreview from './TerminalPreview';
+
+const nextThemeName = (taken: string[]) => {
+  let n = 1;
+  while (taken.includes(n === 1 ? 'My Theme' : `My Theme ${n}`)) n++;
+  return n === 1 ? 'My Theme' : `My Theme ${n}`;
+};
+
+interface ColorInputProps {
+  field: ThemeColorField;
+  value: string;
+  check?: ContrastCheck;
+  onChange: (value: string) => void;
+}
+
+function ColorInput({ field, value, check, onChange }: ColorInputProps) {
+  const isHex = parseHexColor(value) !== null;
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+      <Box
+          component="input"
+          type="color"
+          // The native picker only understands #rrggbb; named colors show as black until changed.
+          value={isHex && value.length === 7 ? value : '#000000'}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
+          sx={{ width: 36, height: 36, p: 0, border: 'none', bgcolor: 'transparent', cursor: 'pointer', flexShrink: 0 }}
+      />
+      <TextField
+          label={field.label}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          size="small"
+          helperText={field.description}
+          sx={{ flexGrow: 1 }}
+      />
+      {check && (
+          <Tooltip title={check.ratio === null ? 'Contrast can only be checked for hex colors.' : `${check.key} on ${check.against} needs at least ${check.minimum}:1.`}>
+              <Chip
+                  size="small"
+                  variant="outlined"
+                  color={check.ratio === null ? 'default' : check.passes ? 'success' : 'warning'}
+                  label={check.ratio === null ? 'n/a' : `${check.ratio.toFixed(1)}:1`}
+                  sx={{ minWidth: 64 }}
+              />
+          </Tooltip>
+      )}
+    </Box>
+  );
+}
+
+interface ThemeEditorProps {
+  name: string;
+  theme: CustomTheme;
+  otherNames: string[];
+  active: boolean;
+  onChange: (theme: CustomTheme) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onApply: () => void;
+}
+
+// Keyed by theme name by the caller, so the name draft starts over when another theme is picked.
+function ThemeEditor({ name, theme, otherNames, active, onChange, onRename, onDelete, onApply }: ThemeEditorProps) {
+  const [nameDraft, setNameDraft] = React.useState(name);
+  const nameError = nameDraft === name ? null : validateThemeName(nameDraft, otherNames);
+  const checks = checkThemeContrast(theme);
+  const failing = checks.filter((c) => !c.passes);
+
+  const commitName = () => {
+      if (nameDraft !== name && !nameError) onRename(nameDraft);
+  };
+
+  return (
+    <Box>
+      <Box data-local-undo sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mb: 2 }}>
+        <TextField
+            label="Theme Name"
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && commitName()}
+            error={Boolean(nameError)}
+            helperText={nameError ?? 'Used as the key in customThemes and as the "theme" setting.'}
+            size="small"
+            sx={{ flexGrow: 1 }}
+        />
+        <Button variant={active ? 'contained' : 'outlined'} startIcon={active ? <CheckIcon /> : undefined} onClick={onApply} disabled={active}>
+            {active ? 'In Use' : 'Use Theme'}
+        </Button>
+        <Button color="error" startIcon={<DeleteIcon />} onClick={onDelete}>Delete</Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+        <Box sx={{ flex: 1, minWidth: 280 }}>
+          {THEME_COLOR_GROUPS.map((group) => (
+              <Box key={group.title} sx={{ mb: 1 }}>
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>{group.title}</Typography>
+                  {group.fields.map((field) => (
+                      <ColorInput
+                          key={field.key}
+                          field={field}
+                          value={theme[field.key] ?? ''}
+                          // Text colors show their own check, backgrounds the check of the text drawn on them.
+                          check={checks.find((c) => (field.contrastWith ? c.key === field.key : c.against === field.key))}
+                          onChange={(value) => onChange({ ...theme, [field.key]: value })}
+                      />
+                  ))}
+              </Box>
+          ))}
+        </Box>
+        <Box sx={{ flex: 1, minWidth: 280 }}>
+          <Typography variant="subtitle2" gutterBottom>Preview</Typography>
+          <TerminalPreview themeName={name} customThemes={{ [name]: theme }} />
+          <Typography variant="body2" color={failing.length > 0 ? 'warning.main' : 'success.main'} sx={{ mt: 2 }}>
+              {failing.length === 0
+                  ? 'All text colors are readable against their backgrounds.'
+                  : `Low contrast: ${failing.map((c) => `${c.key} on ${c.against} (${c.ratio?.toFixed(1)}:1, needs ${c.minimum}:1)`).join('; ')}.`}
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
+
+export default function ThemeDesignerPanel() {
+  const { settings, settingsScopes, setSettingsScope, updateSettings } = useAppStore();
+  const themes = settings.customThemes ?? {};
+  const names = Object.keys(themes);
+  const [selected, setSelected] = React.useState<string | null>(null);
+  const current = selected !== null && selected in themes ? selected : names[0] ?? null;
+
+  const handleCreate = () => {
+      const name = nextThemeName(names);
+      // Start from whatever theme is in use, so tweaking the current look is one click away.
+      const theme = createCustomTheme(name, resolveTheme(settings.theme, themes));
+      updateSettings({ customThemes: { ...themes, [name]: theme } });
+      setSelected(name);
+  };
+
+  const handleChange = (name: string, theme: CustomTheme) => updateSettings({ customThemes: { ...themes, [name]: theme } });
+
+  const handleRename = (oldName: string, name: string) => {
+      // Rebuild the map so the renamed theme keeps its position.
+      const renamed = Object.fromEntries(Object.entries(themes).map(([n, t]) => (n === oldName ? [name, { ...t, name }] : [n, t])));
+      updateSettings(settings.theme === oldName ? { customThemes: renamed, theme: name } : { customThemes: renamed });
+      setSelected(name);
+  };
+
+  const handleDelete = (name: string) => {
+      const rest = { ...themes };
+      delete rest[name];
+      const customThemes = Object.keys(rest).length > 0 ? rest : undefined;
+      updateSettings(settings.theme === name ? { customThemes, theme: 'system' } : { customThemes });
+  };
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">Custom Themes</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ScopeSelect value={getSettingsScope(settingsScopes, 'customThemes')} onChange={(scope) => setSettingsScope('customThemes', scope)} />
+          <Button startIcon={<AddIcon />} onClick={handleCreate}>New Theme</Button>
+        </Box>
+      </Box>
+
+      {current === null ? (
+          <Typography variant="body2" color="text.secondary">
+              No custom themes yet. A new theme starts from the colors of the theme in use, ready to tweak.
+          </Typography>
+      ) : (
+          <>
+              {names.length > 1 && (
+                  <TextField select label="Edit Theme" value={current} onChange={(e) => setSelected(e.target.value)} size="small" fullWidth sx={{ mb: 2 }}>
+                      {names.map((name) => (
+                          <MenuItem key={name} value={name}>{name}{settings.theme === name ? ' (in use)' : ''}</MenuItem>
+                      ))}
+                  </TextField>
+              )}
+              <ThemeEditor
+                  key={current}
+                  name={current}
+                  theme={themes[current]}
+                  otherNames={names.filter((n) => n !== current)}
+                  active={settings.theme === current}
+                  onChange={(theme) => handleChange(current, theme)}
+                  onRename={(name) => handleRename(current, name)}
+                  onDelete={() => handleDelete(current)}
+                  onApply={() => updateSettings({ theme: current })}
+              />
+          </>
+      )}
+    </Paper>
+  );
+}
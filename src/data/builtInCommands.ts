@@ -0,0 +1,34 @@
+// Gemini CLI's built-in slash commands. A custom command with the same name replaces the built-in.
+
+export const BUILT_IN_COMMANDS: string[] = [
+    'about',
+    'auth',
+    'bug',
+    'chat',
+    'clear',
+    'compress',
+    'copy',
+    'corgi',
+    'directory',
+    'docs',
+    'editor',
+    'extensions',
+    'help',
+    'ide',
+    'init',
+    'mcp',
+    'memory',
+    'model',
+    'permissions',
+    'privacy',
+    'quit',
+    'exit',
+    'restore',
+    'settings',
+    'setup-github',
+    'stats',
+    'terminal-setup',
+    'theme',
+    'tools',
+    'vim',
+];
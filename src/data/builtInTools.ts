@@ -0,0 +1,20 @@
+// Gemini CLI's built-in tools, by the names used in coreTools and excludeTools.
+
+export interface BuiltInTool {
+    name: string;
+    displayName: string;
+}
+
+export const BUILT_IN_TOOLS: BuiltInTool[] = [
+    { name: 'list_directory', displayName: 'ReadFolder' },
+    { name: 'read_file', displayName: 'ReadFile' },
+    { name: 'read_many_files', displayName: 'ReadManyFiles' },
+    { name: 'glob', displayName: 'FindFiles' },
+    { name: 'search_file_content', displayName: 'SearchText' },
+    { name: 'replace', displayName: 'Edit' },
+    { name: 'write_file', displayName: 'WriteFile' },
+    { name: 'run_shell_command', displayName: 'Shell' },
+    { name: 'web_fetch', displayName: 'WebFetch' },
+    { name: 'google_web_search', displayName: 'GoogleSearch' },
+    { name: 'save_memory', displayName: 'Save Memory' },
+];
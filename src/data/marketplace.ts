@@ -23,19 +23,32 @@ export const CURATED_EXTENSIONS: Extension[] = [
         id: 'flutter',
         name: 'Flutter Assistant',
         description: 'Specialized tools for creating, upgrading, and maintaining Flutter applications.',
-        url: 'https://github.com/flutter/gemini-cli-extension'
+        url: 'https://github.com/flutter/gemini-cli-extension',
+        mcpConfig: {
+            dart: { command: 'dart', args: ['mcp-server'] }
+        }
     },
     {
         id: 'linear',
         name: 'Linear',
         description: 'Manage Linear issues, projects, and cycles directly from the CLI.',
-        url: 'https://github.com/linear/gemini-cli-extension' // Hypothetical but representative
+        url: 'https://github.com/linear/gemini-cli-extension', // Hypothetical but representative
+        mcpConfig: {
+            linear: { url: 'https://mcp.linear.app/sse' }
+        }
     },
     {
         id: 'stripe',
         name: 'Stripe',
         description: 'Interact with Stripe API, manage customers, and debug payments.',
-        url: 'https://github.com/stripe/gemini-cli-extension' // Hypothetical
+        url: 'https://github.com/stripe/gemini-cli-extension', // Hypothetical
+        mcpConfig: {
+            stripe: {
+                command: 'npx',
+                args: ['-y', '@stripe/mcp', '--tools=all'],
+                env: { STRIPE_SECRET_KEY: '$STRIPE_SECRET_KEY' }
+            }
+        }
     }
 ];
 
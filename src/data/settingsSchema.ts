@@ -0,0 +1,278 @@
+import type { JsonSchema } from '../utils/jsonSchema';
+
+// JSON Schema for Gemini CLI's settings.json (the flat format read from
+// ~/.gemini/settings.json and <project>/.gemini/settings.json).
+// Keep this in sync with the Gemini CLI configuration docs when new settings ship:
+// the Settings view renders its form from this schema, so a new entry here is all
+// a new setting needs. `title` labels the field, `group` picks its form section.
+
+const stringList = (title: string, description: string, group?: string): JsonSchema => ({
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+    uniqueItems: true,
+    title,
+    description,
+    group,
+});
+
+const httpUrl = (title: string, description: string): JsonSchema => ({
+    type: 'string',
+    pattern: '^https?://',
+    errorMessage: 'Must be an http:// or https:// URL.',
+    title,
+    description,
+});
+
+const stringMap = (title: string, description: string): JsonSchema => ({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    title,
+    description,
+});
+
+const themeColor = (title: string): JsonSchema => ({ type: 'string', minLength: 1, title });
+
+export const CUSTOM_THEME_SCHEMA: JsonSchema = {
+    type: 'object',
+    description: 'A custom color theme. Colors are CSS colors such as #1e1e2e.',
+    required: ['type', 'Background', 'Foreground', 'LightBlue', 'AccentBlue', 'AccentPurple', 'AccentCyan', 'AccentGreen', 'AccentYellow', 'AccentRed', 'Comment', 'Gray'],
+    properties: {
+        name: { type: 'string', minLength: 1, title: 'Name' },
+        type: { type: 'string', enum: ['custom'], title: 'Type' },
+        Background: themeColor('Background'),
+        Foreground: themeColor('Foreground'),
+        LightBlue: themeColor('Light Blue'),
+        AccentBlue: themeColor('Accent Blue'),
+        AccentPurple: themeColor('Accent Purple'),
+        AccentCyan: themeColor('Accent Cyan'),
+        AccentGreen: themeColor('Accent Green'),
+        AccentYellow: themeColor('Accent Yellow'),
+        AccentRed: themeColor('Accent Red'),
+        Comment: themeColor('Comment'),
+        Gray: themeColor('Gray'),
+        DiffAdded: themeColor('Diff Added'),
+        DiffRemoved: themeColor('Diff Removed'),
+        GradientColors: { type: 'array', items: themeColor('Gradient Color'), title: 'Gradient Colors' },
+    },
+};
+
+export const MCP_SERVER_SCHEMA: JsonSchema = {
+    type: 'object',
+    description: 'An MCP server. Set exactly one of command (stdio), url (SSE) or httpUrl (streamable HTTP).',
+    anyOf: [
+        { required: ['command'] },
+        { required: ['url'] },
+        { required: ['httpUrl'] },
+    ],
+    errorMessage: 'An MCP server needs a "command", "url" or "httpUrl".',
+    properties: {
+        command: { type: 'string', minLength: 1, title: 'Command', description: 'Executable that starts the server over stdio.' },
+        args: stringList('Arguments', 'Arguments passed to the command.'),
+        env: stringMap('Environment', 'Environment variables for the server process. $VAR references are expanded.'),
+        cwd: { type: 'string', title: 'Working Directory', description: 'Working directory for the server process.' },
+        url: httpUrl('SSE URL', 'Server-Sent Events endpoint.'),
+        httpUrl: httpUrl('HTTP URL', 'Streamable HTTP endpoint.'),
+        headers: stringMap('Headers', 'HTTP headers sent with every request to url or httpUrl.'),
+        timeout: { type: 'integer', minimum: 0, title: 'Timeout (ms)', description: 'Request timeout in milliseconds (default 600000).' },
+        trust: { type: 'boolean', title: 'Trust', description: 'Skip tool call confirmations for this server.' },
+        description: { type: 'string', title: 'Description', description: 'Shown in /mcp.' },
+        includeTools: stringList('Include Tools', 'Only expose these tools from the server.'),
+        excludeTools: stringList('Exclude Tools', 'Never expose these tools from the server.'),
+        oauth: { type: 'object', additionalProperties: true, title: 'OAuth', description: 'OAuth settings for remote servers.' },
+    },
+};
+
+export const SETTINGS_SCHEMA: JsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Gemini CLI settings.json',
+    type: 'object',
+    properties: {
+        // --- General ---
+        model: {
+            type: 'string',
+            minLength: 1,
+            examples: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+            title: 'Model',
+            description: 'Gemini model to use.',
+            group: 'General',
+        },
+        selectedAuthType: {
+            type: 'string',
+            enum: ['oauth-personal', 'gemini-api-key', 'vertex-ai', 'cloud-shell'],
+            title: 'Authentication',
+            description: 'Authentication method used at startup.',
+            group: 'General',
+        },
+        preferredEditor: {
+            type: 'string',
+            examples: ['vscode', 'cursor', 'windsurf', 'zed', 'vim', 'neovim', 'emacs'],
+            title: 'Preferred Editor',
+            description: 'Editor used to view and modify diffs.',
+            group: 'General',
+        },
+        disableAutoUpdate: { type: 'boolean', title: 'Disable Auto Update', description: 'Do not update Gemini CLI automatically.', group: 'General' },
+        dnsResolutionOrder: {
+            type: 'string',
+            enum: ['ipv4first', 'verbatim'],
+            title: 'DNS Resolution Order',
+            description: 'Node.js DNS resolution order; ipv4first helps on networks with broken IPv6.',
+            group: 'General',
+        },
+
+        // --- Appearance ---
+        theme: {
+            type: 'string',
+            minLength: 1,
+            examples: ['system', 'light', 'dark', 'GitHub'],
+            title: 'Theme',
+            description: 'Color theme, a built-in name or one of customThemes.',
+            group: 'Appearance',
+        },
+        vimMode: { type: 'boolean', title: 'Vim Mode', description: 'Vim keybindings in the input prompt.', group: 'Appearance' },
+        hideTips: { type: 'boolean', title: 'Hide Tips', description: 'Hide startup tips.', group: 'Appearance' },
+        hideBanner: { type: 'boolean', title: 'Hide Banner', description: 'Hide the startup banner.', group: 'Appearance' },
+        hideWindowTitle: { type: 'boolean', title: 'Hide Window Title', description: 'Do not change the terminal window title.', group: 'Appearance' },
+        showMemoryUsage: { type: 'boolean', title: 'Show Memory Usage', description: 'Show memory usage in the status bar.', group: 'Appearance' },
+        accessibility: {
+            type: 'object',
+            title: 'Accessibility',
+            description: 'Accessibility options.',
+            group: 'Appearance',
+            properties: {
+                disableLoadingPhrases: { type: 'boolean', title: 'Disable Loading Phrases', description: 'Turn off the animated loading phrases.' },
+            },
+        },
+        customThemes: {
+            type: 'object',
+            title: 'Custom Themes',
+            description: 'Custom color themes keyed by name.',
+            additionalProperties: CUSTOM_THEME_SCHEMA,
+            hideInForm: true,
+        },
+
+        // --- Safety & Behavior ---
+        autoAccept: {
+            type: 'boolean',
+            title: 'YOLO Mode (Auto-Accept)',
+            description: 'DANGER: Automatically runs commands without asking for confirmation. Use with extreme caution!',
+            group: 'Safety & Behavior',
+        },
+        sandbox: {
+            anyOf: [{ type: 'boolean' }, { type: 'string', enum: ['docker', 'podman'] }],
+            title: 'Sandbox',
+            description: 'Run tools in a sandbox: true, false, "docker" or "podman".',
+            hideInForm: true,
+        },
+        checkpointing: {
+            type: 'object',
+            title: 'Checkpointing',
+            description: 'Creates a snapshot of files before changes, allowing you to /restore if Gemini messes up.',
+            group: 'Safety & Behavior',
+            properties: {
+                enabled: { type: 'boolean', default: true, title: 'Enable Checkpointing', description: 'Snapshot files before tools modify them.' },
+            },
+        },
+
+        // --- Tools ---
+        coreTools: stringList('Core Tools', 'Restrict the built-in tools to this list, e.g. ReadFileTool or ShellTool(ls).', 'Tools'),
+        allowedTools: stringList('Allowed Tools', 'Tools that run without asking for confirmation, e.g. ShellTool(git status).', 'Tools'),
+        excludeTools: stringList('Exclude Tools', 'Built-in tools to disable, e.g. run_shell_command.', 'Tools'),
+        toolDiscoveryCommand: { type: 'string', title: 'Tool Discovery Command', description: 'Command that prints custom tool declarations as JSON.', group: 'Tools' },
+        toolCallCommand: { type: 'string', title: 'Tool Call Command', description: 'Command that runs a discovered custom tool.', group: 'Tools' },
+        summarizeToolOutput: {
+            type: 'object',
+            title: 'Summarize Tool Output',
+            description: 'Summarize long tool output, keyed by tool name (e.g. run_shell_command).',
+            group: 'Tools',
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    tokenBudget: { type: 'integer', minimum: 1, title: 'Token Budget', description: 'Token budget for the summary.' },
+                },
+            },
+        },
+
+        // --- MCP ---
+        mcpServers: {
+            type: 'object',
+            additionalProperties: MCP_SERVER_SCHEMA,
+            title: 'MCP Servers',
+            description: 'MCP servers keyed by name.',
+            hideInForm: true,
+        },
+        mcpServerCommand: { type: 'string', title: 'MCP Server Command', description: 'Command that starts a single stdio MCP server.', group: 'MCP' },
+        allowMCPServers: stringList('Allowed MCP Servers', 'Only connect to these MCP servers.', 'MCP'),
+        excludeMCPServers: stringList('Excluded MCP Servers', 'Never connect to these MCP servers.', 'MCP'),
+
+        // --- Context & Files ---
+        contextFileName: {
+            anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', items: { type: 'string', minLength: 1 } }],
+            title: 'Context File Name',
+            description: 'Context file name(s) to load instead of GEMINI.md.',
+            group: 'Context & Files',
+        },
+        includeDirectories: stringList('Include Directories', 'Extra directories added to the workspace, e.g. ../other-repo.', 'Context & Files'),
+        loadMemoryFromIncludeDirectories: {
+            type: 'boolean',
+            title: 'Load Context From Include Directories',
+            description: 'Also load GEMINI.md files from includeDirectories.',
+            group: 'Context & Files',
+        },
+        memoryDiscoveryMaxDirs: {
+            type: 'integer',
+            minimum: 1,
+            title: 'Context Discovery Max Directories',
+            description: 'Maximum directories searched for context files (default 200).',
+            group: 'Context & Files',
+        },
+        fileFiltering: {
+            type: 'object',
+            title: 'File Filtering',
+            description: 'How @ references and file tools pick files.',
+            group: 'Context & Files',
+            properties: {
+                respectGitIgnore: { type: 'boolean', default: true, title: 'Respect .gitignore', description: 'Skip files ignored by .gitignore.' },
+                enableRecursiveFileSearch: { type: 'boolean', default: true, title: 'Recursive File Search', description: 'Search subdirectories when completing @ paths.' },
+            },
+        },
+
+        // --- Session ---
+        maxSessionTurns: { type: 'integer', minimum: -1, title: 'Max Session Turns', description: 'Maximum turns per session; -1 for unlimited.', group: 'Session' },
+        chatCompression: {
+            type: 'object',
+            title: 'Chat Compression',
+            description: 'When to compress the chat history.',
+            group: 'Session',
+            properties: {
+                contextPercentageThreshold: {
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                    title: 'Context Threshold',
+                    description: 'Fraction of the context window (0-1) that triggers compression.',
+                },
+            },
+        },
+
+        // --- Privacy & Telemetry ---
+        usageStatisticsEnabled: {
+            type: 'boolean',
+            default: true,
+            title: 'Usage Statistics',
+            description: 'Send anonymous usage statistics to Google.',
+            group: 'Privacy & Telemetry',
+        },
+        telemetry: {
+            type: 'object',
+            title: 'Telemetry',
+            description: 'Sends usage statistics. Useful for debugging or tracking token usage.',
+            group: 'Privacy & Telemetry',
+            properties: {
+                enabled: { type: 'boolean', title: 'Enable Telemetry', description: 'Export OpenTelemetry logs, metrics and traces.' },
+                target: { type: 'string', enum: ['local', 'gcp'], title: 'Telemetry Target', description: 'Where telemetry is sent.' },
+                otlpEndpoint: httpUrl('OTLP Endpoint', 'OTLP collector endpoint.'),
+                logPrompts: { type: 'boolean', title: 'Log Prompts', description: 'Include prompt text in logs.' },
+            },
+        },
+    },
+};
@@ -0,0 +1,161 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Collapse,
+  Paper,
+} from '@mui/material';
+import {
+  Folder as FolderIcon,
+  FolderOpen as FolderOpenIcon,
+  InsertDriveFile as FileIcon,
+} from '@mui/icons-material';
+import type { BundleFile } from '../utils/bundle';
+import { formatBytes } from '../utils/fileNames';
+import { skillFileSize, skillFileImageUrl } from '../utils/skillFiles';
+
+interface TreeNode {
+  name: string;
+  path: string;
+  file?: BundleFile;
+  children: TreeNode[];
+  size: number;
+}
+
+// Bundle files share the text/base64 representation of skill files.
+const byteLength = skillFileSize;
+
+// Turns the flat file list into folders, listing folders before files like a file manager.
+const buildTree = (files: BundleFile[]): TreeNode[] => {
+  const root: TreeNode = { name: '', path: '', children: [], size: 0 };
+  files.forEach((file) => {
+    const parts = file.path.split('/');
+    const size = byteLength(file);
+    let node = root;
+    node.size += size;
+    parts.forEach((part, idx) => {
+      const path = parts.slice(0, idx + 1).join('/');
+      let child = node.children.find((c) => c.name === part && !c.file === (idx < parts.length - 1));
+      if (!child) {
+        child = { name: part, path, children: [], size: 0, file: idx === parts.length - 1 ? file : undefined };
+        node.children.push(child);
+      }
+      child.size += size;
+      node = child;
+    });
+  });
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((n) => ({ ...n, children: sort(n.children) }))
+      .sort((a, b) => Number(Boolean(a.file)) - Number(Boolean(b.file)) || a.name.localeCompare(b.name));
+  return sort(root.children);
+};
+
+interface TreeItemProps {
+  node: TreeNode;
+  depth: number;
+  selectedPath: string | null;
+  onSelect: (file: BundleFile) => void;
+}
+
+function TreeItem({ node, depth, selectedPath, onSelect }: TreeItemProps) {
+  const [open, setOpen] = React.useState(true);
+
+  if (node.file) {
+    const file = node.file;
+    return (
+      <ListItemButton dense sx={{ pl: 1 + depth * 2 }} selected={selectedPath === node.path} onClick={() => onSelect(file)}>
+        <ListItemIcon sx={{ minWidth: 32 }}><FileIcon fontSize="small" /></ListItemIcon>
+        <ListItemText primary={node.name} />
+        <Typography variant="caption" color="text.secondary">{formatBytes(node.size)}</Typography>
+      </ListItemButton>
+    );
+  }
+
+  return (
+    <>
+      <ListItemButton dense sx={{ pl: 1 + depth * 2 }} onClick={() => setOpen(!open)}>
+        <ListItemIcon sx={{ minWidth: 32 }}>{open ? <FolderOpenIcon fontSize="small" /> : <FolderIcon fontSize="small" />}</ListItemIcon>
+        <ListItemText primary={`${node.name}/`} />
+        <Typography variant="caption" color="text.secondary">{formatBytes(node.size)}</Typography>
+      </ListItemButton>
+      <Collapse in={open} unmountOnExit>
+        {node.children.map((child) => (
+          <TreeItem key={child.path} node={child} depth={depth + 1} selectedPath={selectedPath} onSelect={onSelect} />
+        ))}
+      </Collapse>
+    </>
+  );
+}
+
+interface BundleInspectorDialogProps {
+  open: boolean;
+  files: BundleFile[];
+  onClose: () => void;
+}
+
+export default function BundleInspectorDialog({ open, files, onClose }: BundleInspectorDialogProps) {
+  const [selectedPath, setSelectedPath] = React.useState<string | null>(null);
+  const tree = React.useMemo(() => buildTree(files), [files]);
+  const totalSize = React.useMemo(() => files.reduce((sum, f) => sum + byteLength(f), 0), [files]);
+
+  // Fall back to the first file when nothing (or a file that no longer exists) is selected.
+  const selected = files.find((f) => f.path === selectedPath) ?? files[0];
+  const imageUrl = selected && skillFileImageUrl({ ...selected, name: selected.path });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Inspect Bundle
+        <Typography variant="body2" color="text.secondary">
+            {files.length} files, {formatBytes(totalSize)} before compression
+        </Typography>
+      </DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, height: '65vh', p: 0 }}>
+        <Box sx={{ width: 340, flexShrink: 0, overflow: 'auto', borderRight: 1, borderColor: 'divider' }}>
+            <List disablePadding>
+                {tree.map((node) => (
+                    <TreeItem key={node.path} node={node} depth={0} selectedPath={selected?.path ?? null} onSelect={(f) => setSelectedPath(f.path)} />
+                ))}
+            </List>
+        </Box>
+        <Box sx={{ flexGrow: 1, minWidth: 0, display: 'flex', flexDirection: 'column', p: 2 }}>
+            {selected && (
+                <>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                        <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
+                            {selected.path}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                            {formatBytes(byteLength(selected))}{selected.executable ? ' · executable' : ''}
+                        </Typography>
+                    </Box>
+                    <Paper variant="outlined" sx={{ flexGrow: 1, overflow: 'auto', bgcolor: '#1e1e1e', color: '#d4d4d4', p: 2 }}>
+                        {imageUrl ? (
+                            <Box component="img" src={imageUrl} alt={selected.path} sx={{ maxWidth: '100%' }} />
+                        ) : (
+                            <Box component="pre" sx={{ m: 0, fontFamily: 'monospace', fontSize: '0.85rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                                {selected.encoding === 'base64' ? '(binary file)' : selected.content || '(empty file)'}
+                            </Box>
+                        )}
+                    </Paper>
+                </>
+            )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -1,108 +1,49 @@
 import React from 'react';
-import { Paper, Typography, Box, Button, Badge } from '@mui/material';
-import { Download as DownloadIcon } from '@mui/icons-material';
-import JSZip from 'jszip';
+import { Paper, Typography, Box, Button, Badge, Tooltip } from '@mui/material';
+import { Download as DownloadIcon, AccountTree as InspectIcon } from '@mui/icons-material';
 import { saveAs } from 'file-saver';
 import { useAppStore } from '../store/appStore';
+import { toFileSlug } from '../utils/fileNames';
+import { generateBundle, USER_SETTINGS_FILE, SYSTEM_SETTINGS_FILE } from '../utils/bundle';
+import { zipBundleFiles } from '../utils/zip';
+import { SANDBOX_ENV_PATH, SANDBOX_DOCKERFILE_PATH } from '../utils/sandbox';
+import { commandNameErrors } from '../utils/commandNames';
+import { skillLintErrors } from '../utils/skillLint';
+import BundleInspectorDialog from './BundleInspectorDialog';
+
+// Files that are only part of the bundle when configured, listed by name in the summary.
+const OPTIONAL_FILES = [USER_SETTINGS_FILE, SYSTEM_SETTINGS_FILE, SANDBOX_ENV_PATH, SANDBOX_DOCKERFILE_PATH];
 
 export default function DownloadManager() {
-  const { settings, contextSections, commands, activeExtensions, skills } = useAppStore();
+  const { settings, settingsScopes, sandbox, contextSections, commands, activeExtensions, skills, workspaces, activeWorkspaceId } = useAppStore();
+  const workspaceName = workspaces.find((w) => w.id === activeWorkspaceId)?.name ?? '';
+  const zipName = `${toFileSlug(workspaceName)}.zip`;
+  const [inspectOpen, setInspectOpen] = React.useState(false);
+  const [downloadError, setDownloadError] = React.useState<string | null>(null);
+
+  const files = React.useMemo(
+    () => generateBundle({ settings, settingsScopes, sandbox, contextSections, commands, activeExtensions, skills }),
+    [settings, settingsScopes, sandbox, contextSections, commands, activeExtensions, skills]
+  );
+  const hasSetupScript = files.some((f) => f.path === 'setup.sh');
+  const optionalFiles = files.filter((f) => OPTIONAL_FILES.includes(f.path));
+  // Broken command names would produce clashing or invalid paths in the zip, and skills that
+  // fail the SKILL.md rules would not load.
+  const blockingErrors = React.useMemo(
+      () => [...commandNameErrors(commands), ...skillLintErrors(skills)],
+      [commands, skills]
+  );
 
   const handleDownloadZip = async () => {
-    const zip = new JSZip();
-
-    // 1. GEMINI.md
-    const geminiMdContent = contextSections
-      .filter((s) => s.enabled)
-      .map((s) => `# ${s.title}\n\n${s.content}`)
-      .join('\n\n');
-    zip.file('GEMINI.md', geminiMdContent);
-
-    // 2. .gemini/settings.json
-    zip.file('.gemini/settings.json', JSON.stringify(settings, null, 2));
-
-    // 3. .gemini/commands/*.toml
-    if (commands.length > 0) {
-        const commandsBase = zip.folder('.gemini/commands');
-        if (commandsBase) {
-            commands.forEach((cmd) => {
-                const parts = cmd.name.split(':');
-                const fileName = parts.pop() + '.toml';
-                let currentFolder = commandsBase;
-                
-                parts.forEach(part => {
-                    const next = currentFolder.folder(part);
-                    if (next) currentFolder = next;
-                });
-
-                const tomlContent = `description = "${cmd.description}"\n\nprompt = """\n${cmd.prompt}\n"""`;
-                currentFolder.file(fileName, tomlContent);
-            });
-        }
-    }
-
-    // 4. .skillz folder
-    if (skills.length > 0) {
-        const skillsBase = zip.folder('.skillz');
-        if (skillsBase) {
-            skills.forEach((skill) => {
-                const skillFolder = skillsBase.folder(skill.name);
-                if (skillFolder) {
-                    // Create SKILL.md
-                    const skillMdContent = `---
-name: ${skill.name}
-description: ${skill.description}
----
-
-${skill.instructions}`;
-                    skillFolder.file('SKILL.md', skillMdContent);
-
-                    // Create helper files
-                    skill.files.forEach((f) => {
-                        skillFolder.file(f.name, f.content);
-                    });
-                }
-            });
-        }
+    if (blockingErrors.length > 0) return;
+    setDownloadError(null);
+    try {
+      saveAs(await zipBundleFiles(files), zipName);
+    } catch (e) {
+      setDownloadError(`Could not create ${zipName}: ${(e as Error).message}`);
     }
-
-    // 5. Installation Script
-    let scriptContent = `#!/bin/bash
-# Gemini Config Setup Script
-`;
-
-    if (activeExtensions.length > 0) {
-        scriptContent += `
-echo "Installing Extensions..."
-${activeExtensions.map(ext => `gemini extensions install ${ext.url}`).join('\n')}
-`;
-    }
-
-    if (skills.length > 0) {
-        scriptContent += `
-echo "Setting up Skills..."
-mkdir -p ~/.skillz
-# Copy skills from the bundled .skillz folder to ~/.skillz
-# Assuming you run this script from the unzipped folder
-if [ -d ".skillz" ]; then
-    cp -r .skillz/* ~/.skillz/
-    echo "Skills installed to ~/.skillz"
-else
-    echo "Warning: .skillz folder not found in current directory."
-fi
-`;
-    }
-
-    if (activeExtensions.length > 0 || skills.length > 0) {
-        zip.file('setup.sh', scriptContent);
-    }
-
-    const content = await zip.generateAsync({ type: 'blob' });
-    saveAs(content, 'gemini-config.zip');
   };
 
-  const fileCount = 1 + 1 + commands.length + skills.length + ((activeExtensions.length > 0 || skills.length > 0) ? 1 : 0); 
-
   return (
     <Paper
       sx={{
@@ -121,21 +62,42 @@ fi
       elevation={3}
     >
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-        <Badge badgeContent={fileCount} color="primary">
+        <Badge badgeContent={files.length} color="primary" max={999}>
             <DescriptionIconWrapper />
         </Badge>
         <Typography variant="body1">
-          <strong>Ready to download:</strong> GEMINI.md, settings.json, {commands.length} Custom Commands
+          <strong>Ready to download:</strong> GEMINI.md, settings.json, {commands.length} Custom Commands, {skills.length} Skills
+          {optionalFiles.map((f) => `, ${f.path}`).join('')}
+          {hasSetupScript && ', setup.sh'}
         </Typography>
+        {blockingErrors.length > 0 && (
+          <Typography variant="body2" color="error">
+            {blockingErrors.length === 1 ? '1 problem' : `${blockingErrors.length} problems`} in commands or skills to fix first
+          </Typography>
+        )}
+        {downloadError && (
+          <Typography variant="body2" color="error">{downloadError}</Typography>
+        )}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button startIcon={<InspectIcon />} onClick={() => setInspectOpen(true)}>
+          Inspect Bundle
+        </Button>
+        <Tooltip title={blockingErrors.length > 0 ? `Fix before downloading: ${blockingErrors.join(' ')}` : ''}>
+          <span>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<DownloadIcon />}
+              onClick={handleDownloadZip}
+              disabled={blockingErrors.length > 0}
+            >
+              Download {zipName}
+            </Button>
+          </span>
+        </Tooltip>
       </Box>
-      <Button
-        variant="contained"
-        color="primary"
-        startIcon={<DownloadIcon />}
-        onClick={handleDownloadZip}
-      >
-        Download All (.zip)
-      </Button>
+      <BundleInspectorDialog open={inspectOpen} files={files} onClose={() => setInspectOpen(false)} />
     </Paper>
   );
 }
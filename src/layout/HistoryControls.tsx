@@ -0,0 +1,50 @@
+import React from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import { Undo as UndoIcon, Redo as RedoIcon } from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+
+export default function HistoryControls() {
+  const { history, undo, redo } = useAppStore();
+  const lastDone = history.past[history.past.length - 1];
+  const nextRedo = history.future[history.future.length - 1];
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo. Most fields write to the store
+  // as you type, so the shortcut undoes their (coalesced) history steps. Fields that edit a local
+  // draft, such as the command and skill editors, sit inside a `data-local-undo` element and keep
+  // the browser's own undo, since the store has not seen their edits yet.
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof Element && e.target.closest('[data-local-undo]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <>
+      <Tooltip title={lastDone ? `Undo: ${lastDone.label} (Ctrl+Z)` : 'Nothing to undo'}>
+        <span>
+          <IconButton color="inherit" onClick={undo} disabled={!lastDone} aria-label="undo">
+            <UndoIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+        <span>
+          <IconButton color="inherit" onClick={redo} disabled={!nextRedo} aria-label="redo">
+            <RedoIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </>
+  );
+}
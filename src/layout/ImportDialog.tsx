@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import { FolderOpen as FolderIcon, FolderZip as ZipIcon } from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+import { importConfigFiles, readZipFile, readFolderFiles } from '../utils/importer';
+import type { ImportSource, ImportResult } from '../utils/importer';
+import { parseProject } from '../utils/projectFile';
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ImportDialog({ open, onClose }: ImportDialogProps) {
+  const { replaceConfig } = useAppStore();
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const zipInputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleClose = () => {
+      setResult(null);
+      setError(null);
+      onClose();
+  };
+
+  const load = async (read: () => Promise<ImportResult>) => {
+      setLoading(true);
+      setError(null);
+      try {
+          setResult(await read());
+      } catch (e) {
+          setResult(null);
+          setError(`Could not read the selected files: ${(e as Error).message}`);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const importFiles = (read: () => Promise<ImportSource>) =>
+      load(async () => {
+          const { files, executables } = await read();
+          return importConfigFiles(files, executables);
+      });
+
+  const handleZipChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file && file.name.toLowerCase().endsWith('.json')) {
+          // Project files saved from the Share dialog hold the configuration as-is.
+          load(async () => ({ config: parseProject(await file.text()).config, warnings: [] }));
+      } else if (file) {
+          importFiles(() => readZipFile(file));
+      }
+      e.target.value = '';
+  };
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (files && files.length > 0) importFiles(() => readFolderFiles(files));
+      e.target.value = '';
+  };
+
+  const handleApply = () => {
+      if (!result) return;
+      replaceConfig(result.config, 'Imported configuration');
+      handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import Configuration</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+            Load a previously downloaded gemini-config.zip or .project.json file, or a project folder containing GEMINI.md, .gemini/ and .skillz/.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <Button variant="outlined" startIcon={<ZipIcon />} onClick={() => zipInputRef.current?.click()} disabled={loading}>
+                Choose .zip or .json
+            </Button>
+            <Button variant="outlined" startIcon={<FolderIcon />} onClick={() => folderInputRef.current?.click()} disabled={loading}>
+                Choose Folder
+            </Button>
+            <input ref={zipInputRef} type="file" accept=".zip,application/zip,.json,application/json" hidden onChange={handleZipChange} />
+            <input ref={folderInputRef} type="file" multiple hidden onChange={handleFolderChange} {...{ webkitdirectory: '' }} />
+        </Box>
+
+        {loading && <CircularProgress size={24} />}
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {result && (
+            <Box>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                    <Chip label={`${result.config.contextSections.length} Context Sections`} />
+                    <Chip label={`${Object.keys(result.config.settings).length} Settings`} />
+                    <Chip label={`${result.config.commands.length} Commands`} />
+                    <Chip label={`${result.config.skills.length} Skills`} />
+                    <Chip label={`${result.config.activeExtensions.length} Extensions`} />
+                </Box>
+                {result.warnings.length > 0 ? (
+                    <Alert severity="warning">
+                        Some files could not be mapped:
+                        <List dense disablePadding>
+                            {result.warnings.map((warning, idx) => (
+                                <ListItem key={idx} disableGutters>
+                                    <ListItemText primary={warning} primaryTypographyProps={{ variant: 'body2' }} />
+                                </ListItem>
+                            ))}
+                        </List>
+                    </Alert>
+                ) : (
+                    <Alert severity="success">Everything was imported.</Alert>
+                )}
+            </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleApply} disabled={!result}>
+            Replace Current Configuration
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
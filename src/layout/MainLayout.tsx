@@ -12,6 +12,7 @@ import {
   ListItemIcon,
   ListItemText,
   CssBaseline,
+  Button,
 } from '@mui/material';
 import {
   Dashboard as DashboardIcon,
@@ -20,9 +21,15 @@ import {
   Code as CodeIcon,
   Extension as ExtensionIcon,
   Psychology as SkillIcon,
+  FileUpload as ImportIcon,
+  Share as ShareIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
 import DownloadManager from './DownloadManager';
+import ImportDialog from './ImportDialog';
+import ShareDialog from './ShareDialog';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import HistoryControls from './HistoryControls';
 
 const drawerWidth = 240;
 
@@ -38,6 +45,8 @@ const menuItems = [
 export default function Layout() {
   const navigate = useNavigate();
   const location = useLocation();
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [shareOpen, setShareOpen] = React.useState(false);
 
   return (
     <Box sx={{ display: 'flex' }}>
@@ -50,6 +59,15 @@ export default function Layout() {
           <Typography variant="h6" noWrap component="div">
             Gemini CLI Configurator
           </Typography>
+          <Box sx={{ flexGrow: 1 }} />
+          <HistoryControls />
+          <WorkspaceSwitcher />
+          <Button color="inherit" startIcon={<ImportIcon />} onClick={() => setImportOpen(true)}>
+            Import
+          </Button>
+          <Button color="inherit" startIcon={<ShareIcon />} onClick={() => setShareOpen(true)}>
+            Share
+          </Button>
         </Toolbar>
       </AppBar>
       <Drawer
@@ -92,6 +110,8 @@ export default function Layout() {
         <Outlet />
       </Box>
       <DownloadManager />
+      <ImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+      <ShareDialog open={shareOpen} onClose={() => setShareOpen(false)} />
     </Box>
   );
 }
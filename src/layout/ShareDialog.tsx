@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import { ContentCopy as CopyIcon, Download as DownloadIcon } from '@mui/icons-material';
+import { saveAs } from 'file-saver';
+import { useAppStore } from '../store/appStore';
+import { pickConfig } from '../store/config';
+import { buildShareUrl, ShareLinkTooLargeError } from '../utils/shareLink';
+import { serializeProject } from '../utils/projectFile';
+import { toFileSlug } from '../utils/fileNames';
+
+interface ShareDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ShareDialog({ open, onClose }: ShareDialogProps) {
+  const state = useAppStore();
+  const [url, setUrl] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+
+  const workspaceName = state.workspaces.find((w) => w.id === state.activeWorkspaceId)?.name ?? 'Shared Configuration';
+  const config = pickConfig(state);
+
+  // Rebuild the link each time the dialog opens so it always reflects the latest edits.
+  React.useEffect(() => {
+      if (!open) return;
+      let cancelled = false;
+      buildShareUrl(pickConfig(useAppStore.getState()), workspaceName)
+          .then((href) => {
+              if (!cancelled) setUrl(href);
+          })
+          .catch((e: Error) => {
+              if (cancelled) return;
+              setError(e instanceof ShareLinkTooLargeError
+                  ? `${e.message} Large context sections and skill files are the usual cause. Download a project file instead and send it directly; it can be opened with Import.`
+                  : `Could not create a share link: ${e.message}`);
+          });
+      return () => {
+          cancelled = true;
+      };
+  }, [open, workspaceName]);
+
+  const handleClose = () => {
+      setUrl(null);
+      setError(null);
+      setCopied(false);
+      onClose();
+  };
+
+  const handleCopy = async () => {
+      if (!url) return;
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+  };
+
+  const handleDownloadProject = () => {
+      const blob = new Blob([serializeProject(config, workspaceName)], { type: 'application/json' });
+      saveAs(blob, `${toFileSlug(workspaceName)}.project.json`);
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Share Configuration</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+            Anyone opening this link gets a copy of the current workspace. The configuration travels inside the link itself and is never uploaded anywhere.
+        </Typography>
+        {!url && !error && <CircularProgress size={24} />}
+        {error && <Alert severity="error">{error}</Alert>}
+        {url && (
+            <TextField
+                fullWidth
+                value={url}
+                helperText={copied ? 'Copied to clipboard' : `${url.length.toLocaleString()} characters`}
+                slotProps={{
+                    input: {
+                        readOnly: true,
+                        endAdornment: (
+                            <InputAdornment position="end">
+                                <Tooltip title="Copy link">
+                                    <IconButton onClick={handleCopy} edge="end">
+                                        <CopyIcon />
+                                    </IconButton>
+                                </Tooltip>
+                            </InputAdornment>
+                        ),
+                    },
+                }}
+                onFocus={(e) => e.target.select()}
+            />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<DownloadIcon />} onClick={handleDownloadProject}>
+            Download Project File
+        </Button>
+        <Button variant="contained" onClick={handleClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
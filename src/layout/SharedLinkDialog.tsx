@@ -0,0 +1,45 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  DialogContentText,
+  Button,
+  Alert,
+} from '@mui/material';
+import type { ConfigData } from '../types';
+
+interface SharedLinkDialogProps {
+  shared: { name: string; config: ConfigData } | null;
+  error: string | null;
+  onOpenAsWorkspace: () => void;
+  onReplace: () => void;
+  onClose: () => void;
+}
+
+export default function SharedLinkDialog({ shared, error, onOpenAsWorkspace, onReplace, onClose }: SharedLinkDialogProps) {
+  return (
+    <Dialog open={Boolean(shared || error)} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{error ? 'Could Not Open Shared Link' : 'Open Shared Configuration'}</DialogTitle>
+      <DialogContent>
+        {error ? (
+            <Alert severity="error">{error}</Alert>
+        ) : (
+            <DialogContentText>
+                This link contains the configuration "{shared?.name}". Loading it into the current workspace will replace your existing work
+                (you can still undo it). Opening it as a new workspace keeps everything you have.
+            </DialogContentText>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{error ? 'Close' : 'Cancel'}</Button>
+        {!error && (
+            <>
+                <Button color="warning" onClick={onReplace}>Replace Current Workspace</Button>
+                <Button variant="contained" onClick={onOpenAsWorkspace}>Open as New Workspace</Button>
+            </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
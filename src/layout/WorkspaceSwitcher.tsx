@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material';
+import {
+  Workspaces as WorkspacesIcon,
+  ArrowDropDown as ArrowDropDownIcon,
+  Check as CheckIcon,
+  Add as AddIcon,
+  ContentCopy as DuplicateIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '../store/appStore';
+
+type NameDialogMode = 'create' | 'duplicate' | 'rename';
+
+const DIALOG_TITLES: Record<NameDialogMode, string> = {
+  create: 'New Workspace',
+  duplicate: 'Duplicate Workspace',
+  rename: 'Rename Workspace',
+};
+
+export default function WorkspaceSwitcher() {
+  const {
+    workspaces,
+    activeWorkspaceId,
+    createWorkspace,
+    switchWorkspace,
+    duplicateWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  } = useAppStore();
+  const [anchorEl, setAnchorEl] = React.useState<HTMLElement | null>(null);
+  const [dialogMode, setDialogMode] = React.useState<NameDialogMode | null>(null);
+  const [nameInput, setNameInput] = React.useState('');
+
+  const active = workspaces.find((w) => w.id === activeWorkspaceId);
+
+  const openDialog = (mode: NameDialogMode) => {
+      setAnchorEl(null);
+      setDialogMode(mode);
+      setNameInput(mode === 'create' ? '' : mode === 'duplicate' ? `${active?.name} (copy)` : active?.name ?? '');
+  };
+
+  const handleSubmit = () => {
+      const name = nameInput.trim();
+      if (!name) return;
+      if (dialogMode === 'create') createWorkspace(name);
+      if (dialogMode === 'duplicate') duplicateWorkspace(activeWorkspaceId, name);
+      if (dialogMode === 'rename') renameWorkspace(activeWorkspaceId, name);
+      setDialogMode(null);
+  };
+
+  const handleDelete = () => {
+      setAnchorEl(null);
+      if (active && confirm(`Delete workspace "${active.name}"? Its configuration will be lost.`)) {
+          deleteWorkspace(active.id);
+      }
+  };
+
+  return (
+    <>
+      <Button
+        color="inherit"
+        startIcon={<WorkspacesIcon />}
+        endIcon={<ArrowDropDownIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        sx={{ textTransform: 'none' }}
+      >
+        {active?.name ?? 'Workspace'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {workspaces.map((workspace) => (
+          <MenuItem
+            key={workspace.id}
+            selected={workspace.id === activeWorkspaceId}
+            onClick={() => { switchWorkspace(workspace.id); setAnchorEl(null); }}
+          >
+            <ListItemIcon>{workspace.id === activeWorkspaceId && <CheckIcon fontSize="small" />}</ListItemIcon>
+            <ListItemText primary={workspace.name} />
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={() => openDialog('create')}>
+          <ListItemIcon><AddIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="New Workspace" />
+        </MenuItem>
+        <MenuItem onClick={() => openDialog('duplicate')}>
+          <ListItemIcon><DuplicateIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Duplicate Current" />
+        </MenuItem>
+        <MenuItem onClick={() => openDialog('rename')}>
+          <ListItemIcon><EditIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Rename Current" />
+        </MenuItem>
+        <MenuItem onClick={handleDelete} disabled={workspaces.length <= 1}>
+          <ListItemIcon><DeleteIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Delete Current" />
+        </MenuItem>
+      </Menu>
+
+      <Dialog data-local-undo open={dialogMode !== null} onClose={() => setDialogMode(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{dialogMode && DIALOG_TITLES[dialogMode]}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Workspace Name"
+            placeholder="payments-service"
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogMode(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={!nameInput.trim()}>
+            {dialogMode === 'rename' ? 'Rename' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
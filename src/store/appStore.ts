@@ -1,143 +1,301 @@
 import { create } from 'zustand';
-import type { AppState, Settings, ContextSection } from '../types';
-
-const defaultSettings: Settings = {
-  theme: 'system',
-  autoAccept: false,
-  checkpointing: {
-    enabled: true,
-  },
-  telemetry: {
-    enabled: false,
-  },
-  includeDirectories: [],
-  excludeTools: [],
-  mcpServers: {},
-};
-
-const defaultContextSections: ContextSection[] = [
-  {
-    id: 'project-role',
-    title: 'Project Role & Persona',
-    content: 'You are an expert Senior Software Engineer. You write clean, efficient, and well-documented code.',
-    enabled: true,
-  },
-  {
-    id: 'tech-stack',
-    title: 'Technology Stack',
-    content: '- Frontend: React, TypeScript, Material UI\n- Backend: Node.js, Express\n- Database: PostgreSQL',
-    enabled: true,
-  },
-  {
-    id: 'coding-standards',
-    title: 'Coding Standards',
-    content: '- Use functional components and hooks.\n- Prefer const over let.\n- Use async/await for asynchronous operations.',
-    enabled: true,
-  },
-];
-
-export const useAppStore = create<AppState>((set) => ({
-  settings: defaultSettings,
-  commands: [],
-  contextSections: defaultContextSections,
-  activeExtensions: [],
-  skills: [
+import { persist } from 'zustand/middleware';
+import type { AppState, Settings } from '../types';
+import { createDefaultConfig, createDefaultWorkspace, pickConfig, syncActiveWorkspace, DEFAULT_WORKSPACE_ID } from './config';
+import { STORAGE_KEY, SCHEMA_VERSION, storage, migratePersistedState, restorePersistedState } from './persistence';
+import type { PersistedState } from './persistence';
+import { emptyHistory, pushHistory, stepHistory } from './history';
+import { commandBaseName, joinCommandName, renameNamespaceIn, copyCommandName } from '../utils/commandTree';
+
+type StateUpdate = Partial<AppState>;
+
+export const useAppStore = create<AppState>()(
+  persist(
+    (set) => {
+      // Applies a configuration change and records the previous configuration as an undo step.
+      const commit = (label: string | ((state: AppState) => string), update: (state: AppState) => StateUpdate, coalesceKey?: string) =>
+        set((state) => ({
+          ...update(state),
+          history: pushHistory(state.history, pickConfig(state), typeof label === 'function' ? label(state) : label, coalesceKey),
+        }));
+
+      const commandName = (state: AppState, id: string) => `/${state.commands.find((c) => c.id === id)?.name ?? 'command'}`;
+      const sectionTitle = (state: AppState, id: string) => `"${state.contextSections.find((s) => s.id === id)?.title ?? 'section'}"`;
+      const skillName = (state: AppState, id: string) => state.skills.find((s) => s.id === id)?.name ?? 'skill';
+
+      return {
+        ...createDefaultConfig(),
+        workspaces: [createDefaultWorkspace()],
+        activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+        history: emptyHistory(),
+
+        updateSettings: (newSettings) =>
+          commit(
+            `Changed settings: ${Object.keys(newSettings).join(', ')}`,
+            (state) => ({ settings: { ...state.settings, ...newSettings } }),
+            `settings:${Object.keys(newSettings).sort().join(',')}`
+          ),
+
+        removeSetting: (key) =>
+          commit(`Removed setting ${key}`, (state) => {
+            const settings = { ...state.settings } as Record<string, unknown>;
+            delete settings[key];
+            const settingsScopes = { ...state.settingsScopes };
+            delete settingsScopes[key];
+            return { settings: settings as Settings, settingsScopes };
+          }),
+
+        setSettingsScope: (key, scope) =>
+          commit(`Moved ${key} to ${scope} settings`, (state) => {
+            // Workspace is the default, so it is stored as "no entry".
+            const settingsScopes = { ...state.settingsScopes };
+            delete settingsScopes[key];
+            if (scope !== 'workspace') settingsScopes[key] = scope;
+            return { settingsScopes };
+          }),
+
+        updateSandbox: (sandbox) =>
+          commit(
+            `Changed sandbox: ${Object.keys(sandbox).join(', ')}`,
+            (state) => ({ sandbox: { ...state.sandbox, ...sandbox } }),
+            `sandbox:${Object.keys(sandbox).sort().join(',')}`
+          ),
+
+        addCommand: (command) =>
+          commit(`Added command /${command.name}`, (state) => ({ commands: [...state.commands, command] })),
+
+        updateCommand: (id, updatedCommand) =>
+          commit(
+            (state) => `Edited command ${commandName(state, id)}`,
+            (state) => ({
+              commands: state.commands.map((cmd) =>
+                cmd.id === id ? { ...cmd, ...updatedCommand } : cmd
+              ),
+            }),
+            `command:${id}`
+          ),
+
+        removeCommand: (id) =>
+          commit(
+            (state) => `Removed command ${commandName(state, id)}`,
+            (state) => ({
+              commands: state.commands.filter((cmd) => cmd.id !== id),
+            })
+          ),
+
+        removeCommands: (ids) =>
+          commit(`Removed ${ids.length} commands`, (state) => ({
+            commands: state.commands.filter((cmd) => !ids.includes(cmd.id)),
+          })),
+
+        duplicateCommands: (ids) =>
+          commit(`Duplicated ${ids.length} commands`, (state) => {
+            const taken = new Set(state.commands.map((cmd) => cmd.name));
+            const copies = state.commands
+              .filter((cmd) => ids.includes(cmd.id))
+              .map((cmd) => {
+                const name = copyCommandName(cmd.name, taken);
+                taken.add(name);
+                return { ...cmd, id: crypto.randomUUID(), name };
+              });
+            return { commands: [...state.commands, ...copies] };
+          }),
+
+        moveCommands: (ids, namespace) =>
+          commit(`Moved ${ids.length} commands to ${namespace ? `${namespace}:` : 'the top level'}`, (state) => ({
+            commands: state.commands.map((cmd) =>
+              ids.includes(cmd.id) ? { ...cmd, name: joinCommandName(namespace, commandBaseName(cmd.name)) } : cmd
+            ),
+          })),
+
+        renameCommandNamespace: (from, to) =>
+          commit(`Renamed namespace ${from}: to ${to}:`, (state) => ({
+            commands: state.commands.map((cmd) => ({ ...cmd, name: renameNamespaceIn(cmd.name, from, to) })),
+          })),
+
+        addContextSection: (section) =>
+          commit(`Added context section "${section.title}"`, (state) => ({ contextSections: [...state.contextSections, section] })),
+
+        // Updated to handle both content and title updates
+        updateContextSection: (id, contentOrPartial) =>
+          commit(
+            (state) => `Edited context section ${sectionTitle(state, id)}`,
+            (state) => ({
+              contextSections: state.contextSections.map((sec) =>
+                sec.id === id 
+                  ? (typeof contentOrPartial === 'string' ? { ...sec, content: contentOrPartial } : { ...sec, ...contentOrPartial })
+                  : sec
+              ),
+            }),
+            `context:${id}:${typeof contentOrPartial === 'string' ? 'content' : Object.keys(contentOrPartial).sort().join(',')}`
+          ),
+
+        toggleContextSection: (id) =>
+          commit(
+            (state) => `${state.contextSections.find((s) => s.id === id)?.enabled ? 'Disabled' : 'Enabled'} context section ${sectionTitle(state, id)}`,
+            (state) => ({
+              contextSections: state.contextSections.map((sec) =>
+                sec.id === id ? { ...sec, enabled: !sec.enabled } : sec
+              ),
+            })
+          ),
+
+        removeContextSection: (id) =>
+          commit(
+            (state) => `Removed context section ${sectionTitle(state, id)}`,
+            (state) => ({
+              contextSections: state.contextSections.filter((sec) => sec.id !== id),
+            })
+          ),
+
+        reorderContextSections: (newOrder) =>
+          commit('Reordered context sections', () => ({ contextSections: newOrder })),
+
+        toggleExtension: (extension) =>
+          commit(
+            (state) => `${state.activeExtensions.some((e) => e.id === extension.id) ? 'Removed' : 'Added'} extension ${extension.name}`,
+            (state) => {
+              const exists = state.activeExtensions.find((e) => e.id === extension.id);
+              if (exists) {
+                return {
+                  activeExtensions: state.activeExtensions.filter(
+                    (e) => e.id !== extension.id
+                  ),
+                };
+              } else {
+                return { activeExtensions: [...state.activeExtensions, extension] };
+              }
+            }
+          ),
+
+        resolveMcpConflict: (extensionId, serverName, resolution) =>
+          commit(
+            `${resolution === 'use-extension' ? 'Used extension' : 'Kept existing'} MCP server "${serverName}"`,
+            (state) => ({
+              activeExtensions: state.activeExtensions.map((ext) =>
+                ext.id === extensionId
+                  ? { ...ext, mcpConflictResolution: { ...ext.mcpConflictResolution, [serverName]: resolution } }
+                  : ext
+              ),
+            })
+          ),
+
+        addSkill: (skill) =>
+          commit(`Added skill ${skill.name}`, (state) => ({ skills: [...state.skills, skill] })),
+
+        updateSkill: (id, updatedSkill) =>
+          commit(
+            (state) => `Edited skill ${skillName(state, id)}`,
+            (state) => ({
+              skills: state.skills.map((s) =>
+                s.id === id ? { ...s, ...updatedSkill } : s
+              ),
+            }),
+            `skill:${id}`
+          ),
+
+        removeSkill: (id) =>
+          commit(
+            (state) => `Removed skill ${skillName(state, id)}`,
+            (state) => ({
+              skills: state.skills.filter((s) => s.id !== id),
+            })
+          ),
+
+        // Bulk actions for Personas
+        loadPersona: (persona) => 
+          commit(`Loaded persona "${persona.name}"`, (state) => ({
+              settings: { ...state.settings, ...persona.settings },
+              contextSections: [...state.contextSections, ...persona.contextSections],
+              skills: [...state.skills, ...persona.skills],
+              commands: [...state.commands, ...persona.commands]
+          })),
+
+        replaceConfig: (config, label = 'Replaced configuration') =>
+          commit(label, () => ({ ...config })),
+
+        undo: () =>
+          set((state) => {
+            const step = stepHistory(state.history, pickConfig(state), 'undo');
+            return step ? { ...step.config, history: step.history } : {};
+          }),
+
+        redo: () =>
+          set((state) => {
+            const step = stepHistory(state.history, pickConfig(state), 'redo');
+            return step ? { ...step.config, history: step.history } : {};
+          }),
+
+        // Workspaces: the active workspace lives at the top level, so every switch
+        // first saves it back into its snapshot.
+        createWorkspace: (name) =>
+          set((state) => {
+            const workspace = { id: crypto.randomUUID(), name, config: createDefaultConfig() };
+            return {
+              workspaces: [...syncActiveWorkspace(state), workspace],
+              activeWorkspaceId: workspace.id,
+              ...workspace.config,
+              history: emptyHistory(),
+            };
+          }),
+
+        switchWorkspace: (id) =>
+          set((state) => {
+            const target = state.workspaces.find((w) => w.id === id);
+            if (!target || id === state.activeWorkspaceId) return {};
+            return {
+              workspaces: syncActiveWorkspace(state),
+              activeWorkspaceId: id,
+              ...structuredClone(target.config),
+              history: emptyHistory(),
+            };
+          }),
+
+        duplicateWorkspace: (id, name) =>
+          set((state) => {
+            const workspaces = syncActiveWorkspace(state);
+            const source = workspaces.find((w) => w.id === id);
+            if (!source) return {};
+            const copy = { id: crypto.randomUUID(), name, config: structuredClone(source.config) };
+            return {
+              workspaces: [...workspaces, copy],
+              activeWorkspaceId: copy.id,
+              ...structuredClone(copy.config),
+              history: emptyHistory(),
+            };
+          }),
+
+        renameWorkspace: (id, name) =>
+          set((state) => ({
+            workspaces: state.workspaces.map((w) => (w.id === id ? { ...w, name } : w)),
+          })),
+
+        deleteWorkspace: (id) =>
+          set((state) => {
+            const remaining = state.workspaces.filter((w) => w.id !== id);
+            if (remaining.length === 0) return {};
+            if (id !== state.activeWorkspaceId) return { workspaces: remaining };
+            return {
+              workspaces: remaining,
+              activeWorkspaceId: remaining[0].id,
+              ...structuredClone(remaining[0].config),
+              history: emptyHistory(),
+            };
+          }),
+      };
+    },
     {
-      id: 'example-skill',
-      name: 'hello-world',
-      description: 'A simple example skill that prints a greeting.',
-      instructions: 'When the user asks for a greeting, run the hello.py script.',
-      files: [
-        {
-          id: 'file-1',
-          name: 'hello.py',
-          content: 'print("Hello from the hello-world skill!")'
-        }
-      ]
+      name: STORAGE_KEY,
+      version: SCHEMA_VERSION,
+      storage,
+      partialize: (state): PersistedState => ({
+        ...pickConfig(state),
+        workspaces: syncActiveWorkspace(state),
+        activeWorkspaceId: state.activeWorkspaceId,
+      }),
+      // Whatever comes out of a migration is untrusted until merge() has sanitized it.
+      migrate: (persisted, version) => migratePersistedState(persisted, version) as PersistedState,
+      merge: (persisted, current) => restorePersistedState(persisted, current),
     }
-  ],
-
-  updateSettings: (newSettings) =>
-    set((state) => ({ settings: { ...state.settings, ...newSettings } })),
-
-  addCommand: (command) =>
-    set((state) => ({ commands: [...state.commands, command] })),
-
-  updateCommand: (id, updatedCommand) =>
-    set((state) => ({
-      commands: state.commands.map((cmd) =>
-        cmd.id === id ? { ...cmd, ...updatedCommand } : cmd
-      ),
-    })),
-
-  removeCommand: (id) =>
-    set((state) => ({
-      commands: state.commands.filter((cmd) => cmd.id !== id),
-    })),
-
-  addContextSection: (section) =>
-    set((state) => ({ contextSections: [...state.contextSections, section] })),
-
-  // Updated to handle both content and title updates
-  updateContextSection: (id, contentOrPartial) =>
-    set((state) => ({
-      contextSections: state.contextSections.map((sec) =>
-        sec.id === id 
-          ? (typeof contentOrPartial === 'string' ? { ...sec, content: contentOrPartial } : { ...sec, ...contentOrPartial })
-          : sec
-      ),
-    })),
-
-  toggleContextSection: (id) =>
-    set((state) => ({
-      contextSections: state.contextSections.map((sec) =>
-        sec.id === id ? { ...sec, enabled: !sec.enabled } : sec
-      ),
-    })),
-
-  removeContextSection: (id) =>
-    set((state) => ({
-      contextSections: state.contextSections.filter((sec) => sec.id !== id),
-    })),
-
-  reorderContextSections: (newOrder) =>
-    set(() => ({ contextSections: newOrder })),
-
-  toggleExtension: (extension) =>
-    set((state) => {
-      const exists = state.activeExtensions.find((e) => e.id === extension.id);
-      if (exists) {
-        return {
-          activeExtensions: state.activeExtensions.filter(
-            (e) => e.id !== extension.id
-          ),
-        };
-      } else {
-        return { activeExtensions: [...state.activeExtensions, extension] };
-      }
-    }),
-
-  addSkill: (skill) =>
-    set((state) => ({ skills: [...state.skills, skill] })),
-
-  updateSkill: (id, updatedSkill) =>
-    set((state) => ({
-      skills: state.skills.map((s) =>
-        s.id === id ? { ...s, ...updatedSkill } : s
-      ),
-    })),
-
-  removeSkill: (id) =>
-    set((state) => ({
-      skills: state.skills.filter((s) => s.id !== id),
-    })),
-
-  // Bulk actions for Personas
-  loadPersona: (persona) => 
-    set((state) => ({
-        settings: { ...state.settings, ...persona.settings },
-        contextSections: [...state.contextSections, ...persona.contextSections],
-        skills: [...state.skills, ...persona.skills],
-        commands: [...state.commands, ...persona.commands]
-    })),
-}));
+  )
+);
@@ -0,0 +1,86 @@
+import type { ConfigData, Settings, ContextSection, AgentSkill, Workspace } from '../types';
+
+const defaultSettings: Settings = {
+  theme: 'system',
+  autoAccept: false,
+  checkpointing: {
+    enabled: true,
+  },
+  telemetry: {
+    enabled: false,
+  },
+  includeDirectories: [],
+  excludeTools: [],
+  mcpServers: {},
+};
+
+const defaultContextSections: ContextSection[] = [
+  {
+    id: 'project-role',
+    title: 'Project Role & Persona',
+    content: 'You are an expert Senior Software Engineer. You write clean, efficient, and well-documented code.',
+    enabled: true,
+  },
+  {
+    id: 'tech-stack',
+    title: 'Technology Stack',
+    content: '- Frontend: React, TypeScript, Material UI\n- Backend: Node.js, Express\n- Database: PostgreSQL',
+    enabled: true,
+  },
+  {
+    id: 'coding-standards',
+    title: 'Coding Standards',
+    content: '- Use functional components and hooks.\n- Prefer const over let.\n- Use async/await for asynchronous operations.',
+    enabled: true,
+  },
+];
+
+const defaultSkills: AgentSkill[] = [
+  {
+    id: 'example-skill',
+    name: 'hello-world',
+    description: 'A simple example skill that prints a greeting.',
+    instructions: 'When the user asks for a greeting, run the hello.py script.',
+    files: [
+      {
+        id: 'file-1',
+        name: 'hello.py',
+        content: 'print("Hello from the hello-world skill!")'
+      }
+    ]
+  }
+];
+
+// Returns a fresh copy so callers can never mutate the shared defaults.
+export const createDefaultConfig = (): ConfigData => structuredClone({
+  settings: defaultSettings,
+  settingsScopes: {},
+  sandbox: {},
+  commands: [],
+  contextSections: defaultContextSections,
+  activeExtensions: [],
+  skills: defaultSkills,
+});
+
+// Strips actions and any other runtime-only state, leaving the configuration itself.
+export const pickConfig = (state: ConfigData): ConfigData => ({
+  settings: state.settings,
+  settingsScopes: state.settingsScopes,
+  sandbox: state.sandbox,
+  commands: state.commands,
+  contextSections: state.contextSections,
+  activeExtensions: state.activeExtensions,
+  skills: state.skills,
+});
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export const createDefaultWorkspace = (config: ConfigData = createDefaultConfig()): Workspace => ({
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'Default',
+  config,
+});
+
+// Writes the live configuration back into the active workspace's snapshot.
+export const syncActiveWorkspace = (state: ConfigData & { workspaces: Workspace[]; activeWorkspaceId: string }): Workspace[] =>
+  state.workspaces.map((w) => (w.id === state.activeWorkspaceId ? { ...w, config: pickConfig(state) } : w));
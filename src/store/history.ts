@@ -0,0 +1,42 @@
+import type { ConfigData, History, HistoryEntry } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+// Edits with the same coalesce key arriving within this window become one undo step.
+const COALESCE_WINDOW_MS = 1000;
+
+export const emptyHistory = (): History => ({ past: [], future: [] });
+
+/**
+ * Records `snapshot` (the configuration before a change) as a new undo step and
+ * clears the redo stack. Consecutive edits sharing a coalesce key, such as
+ * keystrokes in one text field, extend the previous step instead.
+ */
+export function pushHistory(history: History, snapshot: ConfigData, label: string, coalesceKey?: string): History {
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < COALESCE_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, label, timestamp: now }], future: [] };
+  }
+
+  const entry: HistoryEntry = { label, snapshot, coalesceKey, timestamp: now };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Moves one step from `from` to `to`, returning the configuration to restore.
+ * The current configuration is stored on the opposite stack under the same label.
+ */
+export function stepHistory(history: History, current: ConfigData, direction: 'undo' | 'redo'): { history: History; config: ConfigData } | null {
+  const [from, to] = direction === 'undo' ? [history.past, history.future] : [history.future, history.past];
+  const entry = from[from.length - 1];
+  if (!entry) return null;
+
+  const reverse: HistoryEntry = { label: entry.label, snapshot: current, timestamp: 0 };
+  const remaining = from.slice(0, -1);
+  const moved = [...to, reverse];
+  return {
+    history: direction === 'undo' ? { past: remaining, future: moved } : { past: moved, future: remaining },
+    config: entry.snapshot,
+  };
+}
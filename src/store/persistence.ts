@@ -0,0 +1,104 @@
+import { createJSONStorage } from 'zustand/middleware';
+import type { StateStorage } from 'zustand/middleware';
+import type { ConfigData, Workspace } from '../types';
+import { createDefaultConfig, createDefaultWorkspace, pickConfig, DEFAULT_WORKSPACE_ID } from './config';
+import { isRecord, isString, sanitizeConfig, sanitizeList } from './sanitize';
+
+export const STORAGE_KEY = 'gemini-configurator';
+const BACKUP_KEY = `${STORAGE_KEY}:backup`;
+
+// Bump this and register a migration below when the persisted shape changes in a way
+// sanitizeConfig cannot absorb, i.e. when data moves or changes meaning. New optional
+// fields need no bump: restoring merges sanitized data over createDefaultConfig(), so
+// states saved before a field existed pick up its default (e.g. settingsScopes, sandbox).
+export const SCHEMA_VERSION = 2;
+
+export type PersistedState = ConfigData & {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+};
+
+type Migration = (state: unknown) => unknown;
+
+// migrations[n] upgrades a state saved at version n to version n + 1.
+const migrations: Record<number, Migration> = {
+  // v2 introduced workspaces: the single saved configuration becomes the default workspace.
+  1: (state) => {
+    if (!isRecord(state)) return state;
+    const config = { ...createDefaultConfig(), ...sanitizeConfig(state) };
+    return { ...state, workspaces: [createDefaultWorkspace(config)], activeWorkspaceId: DEFAULT_WORKSPACE_ID };
+  },
+};
+
+// Keeps a copy of saved data we are about to discard, so it can be recovered by hand.
+const backupPersistedState = (raw: unknown) => {
+  try {
+    localStorage.setItem(BACKUP_KEY, typeof raw === 'string' ? raw : JSON.stringify(raw));
+  } catch {
+    // Storage full or unavailable; nothing more we can do.
+  }
+};
+
+// localStorage with a JSON parser that treats unreadable data as "nothing saved".
+const safeLocalStorage: StateStorage = {
+  getItem: (name) => {
+    const raw = localStorage.getItem(name);
+    if (raw === null) return null;
+    try {
+      JSON.parse(raw);
+      return raw;
+    } catch {
+      console.warn(`Ignoring corrupt saved configuration in "${name}".`);
+      backupPersistedState(raw);
+      return null;
+    }
+  },
+  setItem: (name, value) => localStorage.setItem(name, value),
+  removeItem: (name) => localStorage.removeItem(name),
+};
+
+export const storage = createJSONStorage<PersistedState>(() => safeLocalStorage);
+
+export function migratePersistedState(persisted: unknown, version: number): unknown {
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Saved configuration has unknown schema version ${version}; using defaults.`);
+    backupPersistedState({ version, state: persisted });
+    return undefined;
+  }
+
+  let state = persisted;
+  try {
+    for (let v = version; v < SCHEMA_VERSION; v++) {
+      const migration = migrations[v];
+      if (!migration) throw new Error(`No migration from schema version ${v}`);
+      state = migration(state);
+    }
+  } catch (error) {
+    console.warn('Failed to migrate saved configuration; using defaults.', error);
+    backupPersistedState({ version, state: persisted });
+    return undefined;
+  }
+  return state;
+}
+
+const sanitizeWorkspace = (item: Record<string, unknown>): Workspace | null =>
+  isString(item.id) && isString(item.name)
+    ? { id: item.id, name: item.name, config: { ...createDefaultConfig(), ...sanitizeConfig(item.config) } }
+    : null;
+
+// Combines sanitized saved data with the in-memory defaults, making sure there is
+// always at least one workspace and that the active one exists.
+export function restorePersistedState<S extends PersistedState>(persisted: unknown, current: S): S {
+  const restored: S = { ...current, ...sanitizeConfig(persisted) };
+  const workspaces = isRecord(persisted) ? sanitizeList(persisted.workspaces, sanitizeWorkspace) ?? [] : [];
+  if (workspaces.length === 0) {
+    return { ...restored, workspaces: [createDefaultWorkspace(pickConfig(restored))], activeWorkspaceId: DEFAULT_WORKSPACE_ID };
+  }
+
+  const activeId = isRecord(persisted) && isString(persisted.activeWorkspaceId) ? persisted.activeWorkspaceId : null;
+  const active = workspaces.find((w) => w.id === activeId);
+  if (!active) {
+    return { ...restored, ...workspaces[0].config, workspaces, activeWorkspaceId: workspaces[0].id };
+  }
+  return { ...restored, workspaces, activeWorkspaceId: active.id };
+}
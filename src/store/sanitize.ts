@@ -0,0 +1,114 @@
+import type { ConfigData, CustomCommand, CommandFixture, ContextSection, Extension, AgentSkill, SkillFile, Settings, SettingsScope, SandboxConfig } from '../types';
+import { SETTINGS_SCOPES } from '../utils/settingsScopes';
+import { validateSkillFilePath } from '../utils/skillFiles';
+
+// Validation for configuration data coming from outside the running app:
+// localStorage, share links and project files.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const sanitizeList = <T>(value: unknown, sanitizeItem: (item: Record<string, unknown>) => T | null): T[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((item) => {
+    const clean = isRecord(item) ? sanitizeItem(item) : null;
+    return clean ? [clean] : [];
+  });
+};
+
+const sanitizeCommandFixture = (item: Record<string, unknown>): CommandFixture | null =>
+  isString(item.id) && isString(item.args) && isString(item.expected)
+    ? { id: item.id, args: item.args, expected: item.expected }
+    : null;
+
+const sanitizeCommand = (item: Record<string, unknown>): CustomCommand | null =>
+  isString(item.id) && isString(item.name) && isString(item.prompt)
+    ? {
+        ...item,
+        id: item.id,
+        name: item.name,
+        prompt: item.prompt,
+        description: isString(item.description) ? item.description : '',
+        fixtures: sanitizeList(item.fixtures, sanitizeCommandFixture),
+      }
+    : null;
+
+const sanitizeContextSection = (item: Record<string, unknown>): ContextSection | null =>
+  isString(item.id) && isString(item.title) && isString(item.content)
+    ? { ...item, id: item.id, title: item.title, content: item.content, enabled: item.enabled !== false }
+    : null;
+
+const sanitizeExtension = (item: Record<string, unknown>): Extension | null =>
+  isString(item.id) && isString(item.name) && isString(item.url)
+    ? { ...item, id: item.id, name: item.name, url: item.url, description: isString(item.description) ? item.description : '' }
+    : null;
+
+// Paths that could escape the skill folder (e.g. "../../.bashrc") are dropped, not repaired.
+const sanitizeSkillFile = (item: Record<string, unknown>): SkillFile | null =>
+  isString(item.id) && isString(item.name) && isString(item.content) && validateSkillFilePath(item.name) === null
+    ? {
+        ...item,
+        id: item.id,
+        name: item.name,
+        content: item.content,
+        encoding: item.encoding === 'base64' ? 'base64' : undefined,
+        executable: item.executable === true ? true : undefined,
+      }
+    : null;
+
+const sanitizeSkill = (item: Record<string, unknown>): AgentSkill | null =>
+  isString(item.id) && isString(item.name)
+    ? {
+        ...item,
+        id: item.id,
+        name: item.name,
+        description: isString(item.description) ? item.description : '',
+        instructions: isString(item.instructions) ? item.instructions : '',
+        files: sanitizeList(item.files, sanitizeSkillFile) ?? [],
+        allowedTools: Array.isArray(item.allowedTools) ? item.allowedTools.filter(isString) : undefined,
+        license: isString(item.license) ? item.license : undefined,
+        version: isString(item.version) ? item.version : undefined,
+        metadata: isRecord(item.metadata)
+          ? Object.fromEntries(Object.entries(item.metadata).filter((entry): entry is [string, string] => isString(entry[1])))
+          : undefined,
+      }
+    : null;
+
+const sanitizeSandbox = (item: Record<string, unknown>): SandboxConfig => {
+  const sandbox: SandboxConfig = {};
+  if (isString(item.image)) sandbox.image = item.image;
+  if (isRecord(item.env)) sandbox.env = Object.fromEntries(Object.entries(item.env).filter((entry): entry is [string, string] => isString(entry[1])));
+  if (Array.isArray(item.mounts)) sandbox.mounts = item.mounts.filter(isString);
+  if (isString(item.dockerfile)) sandbox.dockerfile = item.dockerfile;
+  return sandbox;
+};
+
+// Drops anything that does not look like our own data. Missing or malformed
+// fields are left out so the caller's defaults win.
+export function sanitizeConfig(persisted: unknown): Partial<ConfigData> {
+  if (!isRecord(persisted)) return {};
+
+  const result: Partial<ConfigData> = {};
+  if (isRecord(persisted.settings)) result.settings = persisted.settings as Settings;
+  if (isRecord(persisted.settingsScopes)) {
+    result.settingsScopes = Object.fromEntries(
+      Object.entries(persisted.settingsScopes).filter((entry): entry is [string, SettingsScope] =>
+        SETTINGS_SCOPES.includes(entry[1] as SettingsScope)
+      )
+    );
+  }
+  if (isRecord(persisted.sandbox)) result.sandbox = sanitizeSandbox(persisted.sandbox);
+
+  const commands = sanitizeList(persisted.commands, sanitizeCommand);
+  if (commands) result.commands = commands;
+  const contextSections = sanitizeList(persisted.contextSections, sanitizeContextSection);
+  if (contextSections) result.contextSections = contextSections;
+  const activeExtensions = sanitizeList(persisted.activeExtensions, sanitizeExtension);
+  if (activeExtensions) result.activeExtensions = activeExtensions;
+  const skills = sanitizeList(persisted.skills, sanitizeSkill);
+  if (skills) result.skills = skills;
+
+  return result;
+}
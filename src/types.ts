@@ -1,6 +1,45 @@
+// One entry of settings.json "mcpServers". Exactly one transport is used:
+// `command` (stdio), `url` (SSE) or `httpUrl` (streamable HTTP).
+export interface McpServerConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  httpUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number; // milliseconds
+  trust?: boolean; // skip tool call confirmations for this server
+  includeTools?: string[];
+  excludeTools?: string[];
+}
+
+// An entry of settings.json "customThemes", in Gemini CLI's format. Colors are CSS
+// colors; the designer writes #rrggbb.
+export interface CustomTheme {
+  name: string;
+  type: 'custom';
+  Background: string;
+  Foreground: string;
+  LightBlue: string;
+  AccentBlue: string;
+  AccentPurple: string;
+  AccentCyan: string;
+  AccentGreen: string;
+  AccentYellow: string;
+  AccentRed: string;
+  Comment: string;
+  Gray: string;
+  DiffAdded?: string; // background of added diff lines
+  DiffRemoved?: string; // background of removed diff lines
+  GradientColors?: string[];
+}
+
 export interface Settings {
-  theme?: 'system' | 'light' | 'dark' | 'GitHub';
+  theme?: string; // a built-in theme name or a key of customThemes
+  customThemes?: Record<string, CustomTheme>;
   autoAccept?: boolean; // YOLO mode
+  sandbox?: boolean | 'docker' | 'podman'; // true picks docker or podman, whichever is installed
   checkpointing?: {
     enabled?: boolean;
   };
@@ -10,20 +49,36 @@ export interface Settings {
   };
   includeDirectories?: string[];
   excludeTools?: string[];
-  mcpServers?: Record<string, {
-    command: string;
-    args?: string[];
-    env?: Record<string, string>;
-  }>;
+  mcpServers?: Record<string, McpServerConfig>;
   // Allow other keys
   [key: string]: any;
 }
 
+// Which settings.json a setting is written to. Gemini CLI layers them as
+// system over workspace over user.
+export type SettingsScope = 'user' | 'workspace' | 'system';
+
+// Sandbox options that live outside settings.json: Gemini CLI reads them from
+// .gemini/.env and .gemini/sandbox.Dockerfile.
+export interface SandboxConfig {
+    image?: string; // GEMINI_SANDBOX_IMAGE
+    env?: Record<string, string>; // SANDBOX_ENV, passed into the container
+    mounts?: string[]; // SANDBOX_MOUNTS entries, "host-path:container-path:ro"
+    dockerfile?: string; // .gemini/sandbox.Dockerfile, built with BUILD_SANDBOX=1
+}
+
 export interface CustomCommand {
   id: string; // Internal UUID
   name: string; // The slash command (e.g., "test:gen")
   description: string;
   prompt: string;
+  fixtures?: CommandFixture[]; // Saved test bench samples
+}
+
+export interface CommandFixture {
+  id: string;
+  args: string; // Sample arguments, as typed after the command name
+  expected: string; // Expanded prompt recorded when the fixture was saved
 }
 
 export interface ContextSection {
@@ -38,13 +93,19 @@ export interface Extension {
     name: string;
     description: string;
     url: string;
-    mcpConfig?: Record<string, any>; // If adding this extension adds MCP config
+    mcpConfig?: Record<string, McpServerConfig>; // MCP servers this extension adds to settings.json
+    // How to settle server names that are already taken; unresolved conflicts keep the existing server.
+    mcpConflictResolution?: Record<string, McpConflictResolution>;
 }
 
+export type McpConflictResolution = 'keep-existing' | 'use-extension';
+
 export interface SkillFile {
     id: string;
     name: string;
-    content: string;
+    content: string; // Base64 when encoding is 'base64'
+    encoding?: 'base64'; // Binary files; text files have no encoding
+    executable?: boolean;
 }
 
 export interface AgentSkill {
@@ -53,20 +114,61 @@ export interface AgentSkill {
     description: string;
     instructions: string; // The markdown body of SKILL.md
     files: SkillFile[];
+    allowedTools?: string[]; // Tools usable without confirmation while the skill is active
+    license?: string; // e.g. "Apache-2.0" or "Proprietary. LICENSE.txt has complete terms"
+    version?: string; // Written as metadata.version
+    metadata?: Record<string, string>;
 }
 
-export interface AppState {
+// The user-authored configuration, i.e. everything that ends up in the bundle.
+export interface ConfigData {
     settings: Settings;
+    // Target file per top-level setting key, or "mcpServers.<name>" per MCP server; unlisted keys go to the workspace.
+    settingsScopes: Record<string, SettingsScope>;
+    sandbox: SandboxConfig;
     commands: CustomCommand[];
     contextSections: ContextSection[];
     activeExtensions: Extension[];
     skills: AgentSkill[];
-    
+}
+
+export interface Workspace {
+    id: string;
+    name: string;
+    // Snapshot of the workspace's configuration. For the active workspace the
+    // live copy is the top-level ConfigData of AppState.
+    config: ConfigData;
+}
+
+export interface HistoryEntry {
+    label: string; // e.g. "Removed command /test:gen"
+    snapshot: ConfigData; // Configuration to restore when this step is undone (or redone)
+    coalesceKey?: string;
+    timestamp: number;
+}
+
+export interface History {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export interface AppState extends ConfigData {
+    workspaces: Workspace[];
+    activeWorkspaceId: string;
+    history: History;
+
     // Actions
     updateSettings: (settings: Partial<Settings>) => void;
+    removeSetting: (key: string) => void;
+    setSettingsScope: (key: string, scope: SettingsScope) => void;
+    updateSandbox: (sandbox: Partial<SandboxConfig>) => void;
     addCommand: (command: CustomCommand) => void;
     updateCommand: (id: string, command: Partial<CustomCommand>) => void;
     removeCommand: (id: string) => void;
+    removeCommands: (ids: string[]) => void;
+    duplicateCommands: (ids: string[]) => void;
+    moveCommands: (ids: string[], namespace: string) => void;
+    renameCommandNamespace: (from: string, to: string) => void;
     
     addContextSection: (section: ContextSection) => void;
     updateContextSection: (id: string, update: string | Partial<ContextSection>) => void;
@@ -75,10 +177,22 @@ export interface AppState {
     reorderContextSections: (newOrder: ContextSection[]) => void; // Optional but good for MD generation
 
     toggleExtension: (extension: Extension) => void;
+    resolveMcpConflict: (extensionId: string, serverName: string, resolution: McpConflictResolution) => void;
 
     addSkill: (skill: AgentSkill) => void;
     updateSkill: (id: string, skill: Partial<AgentSkill>) => void;
     removeSkill: (id: string) => void;
 
     loadPersona: (persona: any) => void; // Using 'any' briefly to avoid circular deps or complex import in types.ts, or better define interface here
+
+    replaceConfig: (config: ConfigData, label?: string) => void;
+
+    undo: () => void;
+    redo: () => void;
+
+    createWorkspace: (name: string) => void;
+    switchWorkspace: (id: string) => void;
+    duplicateWorkspace: (id: string, name: string) => void;
+    renameWorkspace: (id: string, name: string) => void;
+    deleteWorkspace: (id: string) => void;
 }
@@ -0,0 +1,160 @@
+import type { ConfigData, ContextSection, CustomCommand, Settings, SettingsScope } from '../types';
+import { serializeCommandToml } from './toml';
+import { serializeSkillMd } from './frontmatter';
+import { resolveExportedSettings } from './mcpServers';
+import { splitSettingsByScope } from './settingsScopes';
+import { generateSandboxEnv, SANDBOX_DOCKERFILE_PATH, SANDBOX_ENV_PATH } from './sandbox';
+
+// Everything the download contains, as plain data. Kept free of React, the store and
+// browser APIs so the same output can be produced by the command-line generator.
+
+export interface BundleFile {
+  /** Path relative to the bundle root, always with forward slashes. */
+  path: string;
+  content: string;
+  /** Set for binary files, whose content is base64. */
+  encoding?: 'base64';
+  executable?: boolean;
+}
+
+// User and system settings ship next to the workspace files; setup.sh moves them into place.
+export const USER_SETTINGS_FILE = 'user-settings.json';
+export const SYSTEM_SETTINGS_FILE = 'system-settings.json';
+
+/** The exported settings (including extension MCP servers), split into the file each key belongs to. */
+export function generateScopedSettings(config: ConfigData): Record<SettingsScope, Settings> {
+  return splitSettingsByScope(resolveExportedSettings(config.settings, config.activeExtensions), config.settingsScopes);
+}
+
+const hasSettings = (settings: Settings) => Object.keys(settings).length > 0;
+
+export function generateGeminiMd(contextSections: ContextSection[]): string {
+  return contextSections
+    .filter((s) => s.enabled)
+    .map((s) => `# ${s.title}\n\n${s.content}`)
+    .join('\n\n');
+}
+
+export function generateSetupScript(config: ConfigData): string | null {
+  const { activeExtensions, skills } = config;
+  const scoped = generateScopedSettings(config);
+  const hasUserSettings = hasSettings(scoped.user);
+  const hasSystemSettings = hasSettings(scoped.system);
+  if (activeExtensions.length === 0 && skills.length === 0 && !hasUserSettings && !hasSystemSettings) return null;
+
+  let script = `#!/bin/bash
+# Gemini Config Setup Script
+`;
+
+  if (activeExtensions.length > 0) {
+    script += `
+echo "Installing Extensions..."
+${activeExtensions.map((ext) => `gemini extensions install ${ext.url}`).join('\n')}
+`;
+  }
+
+  if (skills.length > 0) {
+    script += `
+echo "Setting up Skills..."
+mkdir -p ~/.skillz
+# Copy skills from the bundled .skillz folder to ~/.skillz
+# Assuming you run this script from the unzipped folder
+if [ -d ".skillz" ]; then
+    cp -r .skillz/* ~/.skillz/
+    echo "Skills installed to ~/.skillz"
+else
+    echo "Warning: .skillz folder not found in current directory."
+fi
+`;
+  }
+
+  if (hasUserSettings) {
+    script += `
+echo "Merging user settings into ~/.gemini/settings.json..."
+# Keys from ${USER_SETTINGS_FILE} replace existing ones; mcpServers and other maps are merged by name.
+if [ ! -f "${USER_SETTINGS_FILE}" ]; then
+    echo "Warning: ${USER_SETTINGS_FILE} not found in current directory."
+elif ! command -v node >/dev/null 2>&1; then
+    echo "Warning: node not found. Merge ${USER_SETTINGS_FILE} into ~/.gemini/settings.json by hand."
+else
+    mkdir -p ~/.gemini
+    [ -f ~/.gemini/settings.json ] && cp ~/.gemini/settings.json ~/.gemini/settings.json.bak
+    node - "${USER_SETTINGS_FILE}" ~/.gemini/settings.json <<'EOF' && echo "User settings merged into ~/.gemini/settings.json"
+const fs = require('fs');
+const [source, target] = process.argv.slice(2);
+const isObject = (v) => typeof v === 'object' && v !== null && !Array.isArray(v);
+let existing = {};
+try {
+  if (fs.existsSync(target)) existing = JSON.parse(fs.readFileSync(target, 'utf8'));
+} catch (error) {
+  console.error('Could not read ' + target + ' (' + error.message + '); left unchanged.');
+  process.exit(1);
+}
+const incoming = JSON.parse(fs.readFileSync(source, 'utf8'));
+for (const [key, value] of Object.entries(incoming)) {
+  existing[key] = isObject(value) && isObject(existing[key]) ? { ...existing[key], ...value } : value;
+}
+fs.writeFileSync(target, JSON.stringify(existing, null, 2) + '\\n');
+EOF
+fi
+`;
+  }
+
+  if (hasSystemSettings) {
+    script += `
+echo "Installing system settings..."
+SYSTEM_SETTINGS="\${GEMINI_CLI_SYSTEM_SETTINGS_PATH:-}"
+if [ -z "$SYSTEM_SETTINGS" ]; then
+    case "$(uname -s)" in
+        Darwin) SYSTEM_SETTINGS="/Library/Application Support/GeminiCli/settings.json" ;;
+        *) SYSTEM_SETTINGS="/etc/gemini-cli/settings.json" ;;
+    esac
+fi
+SUDO=""
+[ "$(id -u)" -ne 0 ] && SUDO="sudo"
+if [ -f "${SYSTEM_SETTINGS_FILE}" ]; then
+    $SUDO mkdir -p "$(dirname "$SYSTEM_SETTINGS")"
+    [ -f "$SYSTEM_SETTINGS" ] && $SUDO cp "$SYSTEM_SETTINGS" "$SYSTEM_SETTINGS.bak"
+    $SUDO cp "${SYSTEM_SETTINGS_FILE}" "$SYSTEM_SETTINGS"
+    echo "System settings installed to $SYSTEM_SETTINGS"
+else
+    echo "Warning: ${SYSTEM_SETTINGS_FILE} not found in current directory."
+fi
+`;
+  }
+
+  return script;
+}
+
+/** The .toml files for `commands`; namespaced commands ("git:commit") live in nested folders (git/commit.toml). */
+export const generateCommandFiles = (commands: CustomCommand[]): BundleFile[] =>
+  commands.map((cmd) => ({ path: `.gemini/commands/${cmd.name.split(':').join('/')}.toml`, content: serializeCommandToml(cmd) }));
+
+/** Generates every file of the downloadable bundle, in the order they are written. */
+export function generateBundle(config: ConfigData): BundleFile[] {
+  const scoped = generateScopedSettings(config);
+  const files: BundleFile[] = [
+    { path: 'GEMINI.md', content: generateGeminiMd(config.contextSections) },
+    { path: '.gemini/settings.json', content: JSON.stringify(scoped.workspace, null, 2) },
+  ];
+  if (hasSettings(scoped.user)) files.push({ path: USER_SETTINGS_FILE, content: JSON.stringify(scoped.user, null, 2) });
+  if (hasSettings(scoped.system)) files.push({ path: SYSTEM_SETTINGS_FILE, content: JSON.stringify(scoped.system, null, 2) });
+
+  const sandboxEnv = generateSandboxEnv(config.sandbox);
+  if (sandboxEnv !== null) files.push({ path: SANDBOX_ENV_PATH, content: sandboxEnv });
+  if (config.sandbox.dockerfile?.trim()) files.push({ path: SANDBOX_DOCKERFILE_PATH, content: config.sandbox.dockerfile });
+
+  files.push(...generateCommandFiles(config.commands));
+
+  config.skills.forEach((skill) => {
+    files.push({ path: `.skillz/${skill.name}/SKILL.md`, content: serializeSkillMd(skill) });
+    skill.files.forEach((f) => {
+      files.push({ path: `.skillz/${skill.name}/${f.name}`, content: f.content, encoding: f.encoding, executable: f.executable });
+    });
+  });
+
+  const setupScript = generateSetupScript(config);
+  if (setupScript !== null) files.push({ path: 'setup.sh', content: setupScript, executable: true });
+
+  return files;
+}
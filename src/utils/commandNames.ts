@@ -0,0 +1,61 @@
+import type { CustomCommand } from '../types';
+import { BUILT_IN_COMMANDS } from '../data/builtInCommands';
+import { NAMESPACE_SEPARATOR } from './commandTree';
+
+// Command names become file paths in the bundle ("git:commit" -> .gemini/commands/git/commit.toml),
+// so they have to be valid, unique path segments as well as usable slash commands.
+
+export interface CommandNameIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Characters Windows or POSIX file systems reject, plus control characters.
+// eslint-disable-next-line no-control-regex
+const UNSAFE_CHARACTERS = /[\\/<>"|?*\x00-\x1f]/g;
+
+/** Problems with `name`, given the names of every other command. Errors block saving and downloading. */
+export function validateCommandName(name: string, otherNames: string[]): CommandNameIssue[] {
+  const error = (message: string): CommandNameIssue[] => [{ severity: 'error', message }];
+  if (!name.trim()) return error('Name is required.');
+  if (name.startsWith('/')) return error('Leave out the leading "/"; it is added when the command is invoked.');
+  if (/\s/.test(name)) return error('Names cannot contain spaces; everything after the first space is passed as arguments.');
+
+  const segments = name.split(NAMESPACE_SEPARATOR);
+  if (segments.some((segment) => !segment)) return error('Namespaces cannot be empty; check for "::" or a leading or trailing ":".');
+  if (segments.some((segment) => segment === '.' || segment === '..')) return error('"." and ".." cannot be used as names or namespaces.');
+  const unsafe = [...new Set(name.match(UNSAFE_CHARACTERS) ?? [])];
+  if (unsafe.length > 0) {
+    const listed = unsafe.filter((c) => c >= ' ').map((c) => `"${c}"`);
+    if (listed.length < unsafe.length) listed.push('control characters');
+    return error(`${listed.join(', ')} cannot be used in file names.`);
+  }
+
+  if (otherNames.includes(name)) return error(`Another command is already named /${name}.`);
+
+  const issues: CommandNameIssue[] = [];
+  const caseTwin = otherNames.find((other) => other.toLowerCase() === name.toLowerCase());
+  if (caseTwin) {
+    issues.push({
+      severity: 'warning',
+      message: `/${caseTwin} differs only in case; the two files overwrite each other on macOS and Windows.`,
+    });
+  }
+  if (BUILT_IN_COMMANDS.includes(name)) {
+    issues.push({ severity: 'warning', message: `Replaces the built-in /${name} command.` });
+  }
+  return issues;
+}
+
+/** Name problems of every command that has any, in list order. */
+export const validateCommandNames = (commands: CustomCommand[]) =>
+  commands.flatMap((command) => {
+    const issues = validateCommandName(command.name, commands.filter((c) => c.id !== command.id).map((c) => c.name));
+    return issues.length > 0 ? [{ command, issues }] : [];
+  });
+
+/** One line per blocking problem, e.g. for refusing to generate a bundle. */
+export const commandNameErrors = (commands: CustomCommand[]) =>
+  validateCommandNames(commands).flatMap(({ command, issues }) =>
+    issues.filter((issue) => issue.severity === 'error').map((issue) => `/${command.name}: ${issue.message}`)
+  );
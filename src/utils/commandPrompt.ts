@@ -0,0 +1,188 @@
+import type { CustomCommand, CommandFixture } from '../types';
+
+// How Gemini CLI turns a custom command invocation ("/test:gen foo") into the
+// prompt it sends. Shared by every view that previews an expanded command.
+
+export const ARGS_PLACEHOLDER = '{{args}}';
+
+export interface CommandInvocation {
+  /** The whole line as typed, e.g. "/test:gen foo". */
+  raw: string;
+  /** Command name without the slash, e.g. "test:gen". */
+  name: string;
+  /** Everything after the name, trimmed. */
+  args: string;
+}
+
+/** Splits "/name args" into its parts; returns null for input that is not a slash command. */
+export function parseInvocation(input: string): CommandInvocation | null {
+  const raw = input.trim();
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(raw);
+  if (!match) return null;
+  return { raw, name: match[1], args: (match[2] ?? '').trim() };
+}
+
+/** The invocation for running `name` with `args`, as if typed in the CLI. */
+export const createInvocation = (name: string, args: string): CommandInvocation => {
+  const trimmed = args.trim();
+  return { raw: trimmed ? `/${name} ${trimmed}` : `/${name}`, name, args: trimmed };
+};
+
+export const findCommand = (commands: CustomCommand[], name: string) => commands.find((cmd) => cmd.name === name);
+
+/**
+ * Builds the prompt Gemini CLI sends for an invocation: every `{{args}}` is replaced
+ * with the arguments, shell-quoted inside `!{...}` blocks. A prompt without `{{args}}`
+ * is sent as-is when there are no arguments, and otherwise followed by a blank line
+ * and the full invocation. Injections are left in place; they run in the CLI.
+ */
+export function expandCommandPrompt(prompt: string, invocation: CommandInvocation): string {
+  if (!prompt.includes(ARGS_PLACEHOLDER)) return invocation.args ? `${prompt}\n\n${invocation.raw}` : prompt;
+  return parsePromptTemplate(prompt)
+    .map((segment) => {
+      if (segment.kind === 'args') return invocation.args;
+      if (segment.kind === 'shell') return segment.text.split(ARGS_PLACEHOLDER).join(shellQuote(invocation.args));
+      return segment.text;
+    })
+    .join('');
+}
+
+// --- Injections ---
+// "!{command}" runs a shell command and inserts its output; "@{path}" inserts a file or
+// directory. Braces inside a block must balance, as Gemini CLI finds the end by counting.
+
+export type PromptSegment =
+  | { kind: 'text'; text: string; start: number }
+  | { kind: 'args'; text: string; start: number }
+  | { kind: 'shell' | 'file'; text: string; start: number; body: string; closed: boolean };
+
+/** Splits a prompt into plain text, `{{args}}` placeholders and injection blocks. */
+export function parsePromptTemplate(prompt: string): PromptSegment[] {
+  const segments: PromptSegment[] = [];
+  let textStart = 0;
+  let i = 0;
+  const flushText = (end: number) => {
+    if (end > textStart) segments.push({ kind: 'text', text: prompt.slice(textStart, end), start: textStart });
+  };
+
+  while (i < prompt.length) {
+    if (prompt.startsWith(ARGS_PLACEHOLDER, i)) {
+      flushText(i);
+      segments.push({ kind: 'args', text: ARGS_PLACEHOLDER, start: i });
+      i += ARGS_PLACEHOLDER.length;
+      textStart = i;
+    } else if ((prompt[i] === '!' || prompt[i] === '@') && prompt[i + 1] === '{') {
+      flushText(i);
+      let depth = 1;
+      let j = i + 2;
+      for (; j < prompt.length && depth > 0; j++) {
+        if (prompt[j] === '{') depth++;
+        else if (prompt[j] === '}') depth--;
+      }
+      const closed = depth === 0;
+      segments.push({
+        kind: prompt[i] === '!' ? 'shell' : 'file',
+        text: prompt.slice(i, j),
+        start: i,
+        body: prompt.slice(i + 2, closed ? j - 1 : j),
+        closed,
+      });
+      i = j;
+      textStart = i;
+    } else {
+      i++;
+    }
+  }
+  flushText(prompt.length);
+  return segments;
+}
+
+/** Quotes a value for a POSIX shell, the way arguments are escaped inside `!{...}`. */
+export const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+export interface PromptIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const normalizePath = (path: string) => path.trim().replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+
+const isInside = (path: string, dir: string) => {
+  const d = normalizePath(dir);
+  return path === d || path.startsWith(`${d}/`);
+};
+
+/** Problems with the injections of a prompt; `includeDirectories` are the extra folders Gemini CLI may read. */
+export function validatePromptTemplate(prompt: string, includeDirectories: string[] = []): PromptIssue[] {
+  const issues: PromptIssue[] = [];
+  parsePromptTemplate(prompt).forEach((segment) => {
+    if (segment.kind !== 'shell' && segment.kind !== 'file') return;
+    const marker = segment.kind === 'shell' ? '!{' : '@{';
+    if (!segment.closed) {
+      issues.push({ severity: 'error', message: `"${marker}" at character ${segment.start + 1} is never closed; braces inside it must balance.` });
+      return;
+    }
+    if (!segment.body.trim()) {
+      issues.push({ severity: 'error', message: `Empty ${marker}} at character ${segment.start + 1}.` });
+      return;
+    }
+    if (segment.kind === 'shell') {
+      if (segment.body.includes(ARGS_PLACEHOLDER)) {
+        issues.push({
+          severity: 'warning',
+          message: `${segment.text} passes {{args}} to the shell. They are quoted, but check the command is safe for any input.`,
+        });
+      }
+      return;
+    }
+    if (segment.body.includes(ARGS_PLACEHOLDER)) {
+      issues.push({ severity: 'error', message: `${segment.text}: {{args}} is not substituted inside file paths.` });
+      return;
+    }
+    const path = normalizePath(segment.body);
+    const outside = path.startsWith('/') || path.startsWith('~') || path === '..' || path.startsWith('../');
+    if (outside && !includeDirectories.some((dir) => isInside(path, dir))) {
+      issues.push({
+        severity: 'warning',
+        message: `${segment.text} is outside the workspace and not under any includeDirectories entry, so Gemini CLI cannot read it.`,
+      });
+    }
+  });
+  return issues;
+}
+
+/** The shell commands a prompt runs, in order. */
+export const listShellCommands = (prompt: string) =>
+  parsePromptTemplate(prompt).flatMap((s) => (s.kind === 'shell' && s.closed ? [s.body.trim()] : []));
+
+// Patterns reviewers should look at twice before shipping a command.
+const DANGEROUS_SHELL_PATTERNS: [RegExp, string][] = [
+  [/\brm\s+(-\w*r\w*f|-\w*f\w*r|--recursive|--force)/, 'deletes files recursively or forcibly'],
+  [/\bsudo\b/, 'runs as root'],
+  [/\b(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b/, 'pipes a download into a shell'],
+  [/\bgit\s+push\b.*(--force|-f\b)/, 'force-pushes'],
+  [/\bgit\s+(reset\s+--hard|clean\s+-\w*f)/, 'discards local changes'],
+  [/\bchmod\s+(-R\s+)?777\b/, 'makes files world-writable'],
+  [/\b(mkfs|dd\s+if=)/, 'writes to disks directly'],
+  [/>\s*\/dev\/sd/, 'writes to a raw device'],
+];
+
+/** Why a shell command looks risky, or null. */
+export function describeShellRisk(command: string): string | null {
+  return DANGEROUS_SHELL_PATTERNS.find(([pattern]) => pattern.test(command))?.[1] ?? null;
+}
+
+// --- Fixtures ---
+
+export interface FixtureResult {
+  fixture: CommandFixture;
+  actual: string;
+  passes: boolean;
+}
+
+/** Expands every saved fixture against the current prompt and compares it with the recorded output. */
+export const runCommandFixtures = (command: Pick<CustomCommand, 'name' | 'prompt' | 'fixtures'>): FixtureResult[] =>
+  (command.fixtures ?? []).map((fixture) => {
+    const actual = expandCommandPrompt(command.prompt, createInvocation(command.name, fixture.args));
+    return { fixture, actual, passes: actual === fixture.expected };
+  });
@@ -0,0 +1,76 @@
+import type { CustomCommand } from '../types';
+
+// Custom command names are namespaced with ":" ("git:commit:conventional"), which
+// Gemini CLI maps to nested folders under .gemini/commands. These helpers treat the
+// flat command list as that folder tree.
+
+export const NAMESPACE_SEPARATOR = ':';
+
+export interface CommandNamespaceNode {
+  /** Full namespace, e.g. "git:commit"; "" for the root. */
+  path: string;
+  /** Last segment of the path, e.g. "commit". */
+  label: string;
+  namespaces: CommandNamespaceNode[];
+  commands: CustomCommand[];
+}
+
+/** "git:commit:conventional" -> "git:commit"; "" for top-level commands. */
+export const commandNamespace = (name: string) => {
+  const idx = name.lastIndexOf(NAMESPACE_SEPARATOR);
+  return idx === -1 ? '' : name.slice(0, idx);
+};
+
+/** "git:commit:conventional" -> "conventional". */
+export const commandBaseName = (name: string) => name.slice(name.lastIndexOf(NAMESPACE_SEPARATOR) + 1);
+
+export const joinCommandName = (namespace: string, baseName: string) =>
+  namespace ? `${namespace}${NAMESPACE_SEPARATOR}${baseName}` : baseName;
+
+const isInNamespace = (name: string, namespace: string) => name.startsWith(`${namespace}${NAMESPACE_SEPARATOR}`);
+
+/** Groups commands into namespace folders, both sorted by name. */
+export function buildCommandTree(commands: CustomCommand[]): CommandNamespaceNode {
+  const root: CommandNamespaceNode = { path: '', label: '', namespaces: [], commands: [] };
+  const nodes = new Map<string, CommandNamespaceNode>([['', root]]);
+
+  const nodeFor = (path: string): CommandNamespaceNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+    const node: CommandNamespaceNode = { path, label: commandBaseName(path), namespaces: [], commands: [] };
+    nodes.set(path, node);
+    nodeFor(commandNamespace(path)).namespaces.push(node);
+    return node;
+  };
+
+  commands.forEach((cmd) => nodeFor(commandNamespace(cmd.name)).commands.push(cmd));
+
+  const sort = (node: CommandNamespaceNode) => {
+    node.namespaces.sort((a, b) => a.label.localeCompare(b.label));
+    node.commands.sort((a, b) => a.name.localeCompare(b.name));
+    node.namespaces.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+/** Every command in a namespace folder and its subfolders. */
+export const commandsInNamespace = (commands: CustomCommand[], namespace: string) =>
+  commands.filter((cmd) => isInNamespace(cmd.name, namespace));
+
+/** The new name of `name` after namespace `from` is renamed to `to`; unrelated names are unchanged. */
+export const renameNamespaceIn = (name: string, from: string, to: string) =>
+  isInNamespace(name, from) ? joinCommandName(to, name.slice(from.length + 1)) : name;
+
+/** A name for a copy of `name` that is not in `taken`: "review-copy", "review-copy-2", ... */
+export function copyCommandName(name: string, taken: Set<string>): string {
+  let candidate = `${name}-copy`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name}-copy-${n}`;
+  return candidate;
+}
+
+/** Case-insensitive match on name, description and prompt. */
+export function matchesCommandQuery(cmd: CustomCommand, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  return !q || [cmd.name, cmd.description, cmd.prompt].some((field) => field.toLowerCase().includes(q));
+}
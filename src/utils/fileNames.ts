@@ -0,0 +1,9 @@
+// Turns a user-facing name such as a workspace name into a safe file name stem.
+export const toFileSlug = (name: string, fallback = 'gemini-config') =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|-+$/g, '') || fallback;
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
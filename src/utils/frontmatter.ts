@@ -0,0 +1,583 @@
+import type { AgentSkill } from '../types';
+
+// YAML frontmatter for SKILL.md files. Supports the block-style subset that
+// frontmatter uses in practice: mappings, sequences, plain/quoted scalars,
+// literal and folded block scalars, and simple flow sequences/mappings.
+
+export type FrontmatterValue = string | number | boolean | null | FrontmatterValue[] | FrontmatterData;
+export interface FrontmatterData {
+  [key: string]: FrontmatterValue;
+}
+
+export class YamlParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlParseError';
+    this.line = line;
+  }
+}
+
+const INDENT = '  ';
+
+// Plain scalars that a YAML 1.1 or 1.2 parser would read as something other than a string.
+const NON_STRING_PLAIN = /^(~|null|Null|NULL|true|True|TRUE|false|False|FALSE|y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF|[-+]?(\.[0-9]+|[0-9][0-9_]*(\.[0-9_]*)?)([eE][-+]?[0-9]+)?|0x[0-9a-fA-F_]+|0o?[0-7_]+|[-+]?\.(inf|Inf|INF)|\.(nan|NaN|NAN))$/;
+
+// eslint-disable-next-line no-control-regex
+const NON_PRINTABLE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u0085\u2028\u2029\uFEFF]/;
+
+const needsQuotes = (value: string) =>
+  value === '' ||
+  NON_STRING_PLAIN.test(value) ||
+  /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+  /\s$/.test(value) ||
+  /:(\s|$)/.test(value) ||
+  /\s#/.test(value) ||
+  /[\t\r\n]/.test(value) ||
+  /^(---|\.\.\.)/.test(value);
+
+// eslint-disable-next-line no-control-regex
+const DOUBLE_QUOTE_ESCAPES = /[\\"\u0000-\u001F\u007F\u0085\u2028\u2029\uFEFF]/g;
+
+const doubleQuoted = (value: string) =>
+  `"${value.replace(DOUBLE_QUOTE_ESCAPES, (ch) => {
+    switch (ch) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '\n': return '\\n';
+      case '\t': return '\\t';
+      case '\r': return '\\r';
+      default: {
+        const code = ch.charCodeAt(0);
+        return code <= 0xff ? `\\x${code.toString(16).padStart(2, '0')}` : `\\u${code.toString(16).padStart(4, '0')}`;
+      }
+    }
+  })}"`;
+
+// Multi-line text becomes a literal block scalar so it stays readable.
+const blockScalar = (value: string, indent: string) => {
+  const trailing = /\n*$/.exec(value)![0].length;
+  const chomp = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+  const body = trailing === 0 ? value : value.slice(0, -1);
+  const lines = body.split('\n');
+  // An explicit indentation indicator is needed when content itself starts with spaces.
+  const firstContent = lines.find((line) => line.trim() !== '') ?? '';
+  const indicator = /^\s/.test(firstContent) ? String(INDENT.length) : '';
+  return `|${indicator}${chomp}\n${lines.map((line) => (line ? indent + INDENT + line : '')).join('\n')}`;
+};
+
+const stringifyScalarString = (value: string, indent: string) => {
+  if (NON_PRINTABLE.test(value) || /\r/.test(value)) return doubleQuoted(value);
+  if (value.includes('\n')) {
+    // Whitespace-only lines are read inconsistently inside block scalars.
+    const awkward = value.split('\n').some((line) => line !== '' && line.trim() === '');
+    return awkward || value.trim() === '' ? doubleQuoted(value) : blockScalar(value, indent);
+  }
+  if (!needsQuotes(value)) return value;
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+// Plain keys cannot contain "#" (see MAPPING_KEY), on top of what values rule out.
+const stringifyKey = (key: string) =>
+  needsQuotes(key) || /[[\]{},#]/.test(key) || NON_PRINTABLE.test(key) ? doubleQuoted(key) : key;
+
+function stringifyEntry(key: string, value: FrontmatterValue, indent: string): string {
+  const prefix = `${indent}${stringifyKey(key)}:`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${prefix} []`;
+    return `${prefix}\n${value.map((item) => stringifyItem(item, indent + INDENT)).join('\n')}`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return `${prefix} {}`;
+    return `${prefix}\n${entries.map(([k, v]) => stringifyEntry(k, v, indent + INDENT)).join('\n')}`;
+  }
+  return `${prefix} ${stringifyScalar(value, indent)}`;
+}
+
+function stringifyItem(value: FrontmatterValue, indent: string): string {
+  if (Array.isArray(value) || (value !== null && typeof value === 'object')) {
+    // Nested collections inside sequences are written in flow style.
+    return `${indent}- ${JSON.stringify(value)}`;
+  }
+  return `${indent}- ${stringifyScalar(value, indent)}`;
+}
+
+function stringifyScalar(value: string | number | boolean | null, indent: string): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return stringifyScalarString(value, indent);
+  if (typeof value === 'number' && !Number.isFinite(value)) return Number.isNaN(value) ? '.nan' : value > 0 ? '.inf' : '-.inf';
+  return String(value);
+}
+
+/** Serializes data as a `---` delimited YAML frontmatter block. Undefined keys are skipped. */
+export function serializeFrontmatter(data: Record<string, FrontmatterValue | undefined>): string {
+  const lines = Object.entries(data)
+    .filter((entry): entry is [string, FrontmatterValue] => entry[1] !== undefined)
+    .map(([key, value]) => stringifyEntry(key, value, ''));
+  return `---\n${lines.join('\n')}\n---`;
+}
+
+// --- Parser ---
+
+const resolvePlain = (value: string): FrontmatterValue => {
+  if (/^(~|null|Null|NULL)?$/.test(value)) return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?[0-9]+$/.test(value)) return Number(value);
+  if (/^0o[0-7]+$/.test(value)) return parseInt(value.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value.slice(2), 16);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(value)) return Number(value);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(value)) return value.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(value)) return NaN;
+  return value;
+};
+
+const indentOf = (line: string) => /^ */.exec(line)![0].length;
+const isBlank = (line: string) => line.trim() === '' || /^\s*#/.test(line);
+
+// Line folding used by quoted and plain multi-line scalars: single breaks become
+// spaces, each additional empty line is kept as a newline.
+const foldLines = (lines: string[]) => {
+  let out = '';
+  let pendingBreaks = 0;
+  lines.forEach((line, index) => {
+    if (line === '') {
+      pendingBreaks++;
+      return;
+    }
+    if (index > 0) out += pendingBreaks > 0 ? '\n'.repeat(pendingBreaks) : ' ';
+    out += line;
+    pendingBreaks = 0;
+  });
+  return out;
+};
+
+const unescapeDouble = (value: string, fail: (message: string) => never) =>
+  value.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, esc: string) => {
+    switch (esc[0]) {
+      case '0': return '\0';
+      case 'a': return '\x07';
+      case 'b': return '\b';
+      case 't':
+      case '\t': return '\t';
+      case 'n': return '\n';
+      case 'v': return '\v';
+      case 'f': return '\f';
+      case 'r': return '\r';
+      case 'e': return '\x1b';
+      case ' ': return ' ';
+      case '"': return '"';
+      case '/': return '/';
+      case '\\': return '\\';
+      case 'N': return '\u0085';
+      case '_': return '\u00A0';
+      case 'L': return '\u2028';
+      case 'P': return '\u2029';
+      case 'x':
+      case 'u':
+      case 'U': return String.fromCodePoint(parseInt(esc.slice(1), 16));
+      default: return fail(`Invalid escape "\\${esc}"`);
+    }
+  });
+
+const splitFlow = (source: string) => {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      current += ch;
+      if (ch === '\\' && quote === '"') current += source[++i] ?? '';
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    if (ch === '[' || ch === '{') depth++;
+    if (ch === ']' || ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const MAPPING_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)/;
+
+class FrontmatterParser {
+  private lines: string[];
+  private index = 0;
+  private readonly lineOffset: number;
+
+  constructor(source: string, lineOffset: number) {
+    this.lines = source.split('\n');
+    this.lineOffset = lineOffset;
+  }
+
+  private fail(message: string, index = this.index): never {
+    throw new YamlParseError(message, index + 1 + this.lineOffset);
+  }
+
+  private skipBlank() {
+    while (this.index < this.lines.length && isBlank(this.lines[this.index])) this.index++;
+  }
+
+  parse(): FrontmatterData {
+    this.skipBlank();
+    if (this.index >= this.lines.length) return {};
+    const indent = indentOf(this.lines[this.index]);
+    if (/^\s*-(\s|$)/.test(this.lines[this.index])) this.fail('Frontmatter must be a mapping, not a list');
+    const data = this.parseMapping(indent);
+    this.skipBlank();
+    if (this.index < this.lines.length) this.fail('Unexpected indentation');
+    return data;
+  }
+
+  private parseKey(raw: string): string {
+    if (raw.startsWith('"')) return unescapeDouble(raw.slice(1, -1), (m) => this.fail(m));
+    if (raw.startsWith("'")) return raw.slice(1, -1).replace(/''/g, "'");
+    return raw.trim();
+  }
+
+  private parseMapping(indent: number): FrontmatterData {
+    const data: FrontmatterData = {};
+    for (;;) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) return data;
+      const line = this.lines[this.index];
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent) return data;
+      if (lineIndent > indent) this.fail('Unexpected indentation');
+      if (line.includes('\t') && /^\s*\t/.test(line)) this.fail('Tabs are not allowed for indentation');
+
+      const content = line.slice(indent);
+      const match = MAPPING_KEY.exec(content);
+      if (!match) this.fail(`Expected "key: value", got "${content.trim()}"`);
+      const key = this.parseKey(match[1]);
+      if (key in data) this.fail(`Duplicate key "${key}"`);
+      data[key] = this.parseValue(content.slice(match[0].length), indent);
+    }
+  }
+
+  private parseSequence(indent: number): FrontmatterValue[] {
+    const items: FrontmatterValue[] = [];
+    for (;;) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) return items;
+      const line = this.lines[this.index];
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent || !/^-(\s|$)/.test(line.slice(indent))) {
+        if (lineIndent > indent) this.fail('Unexpected indentation');
+        return items;
+      }
+      const rest = line.slice(indent + 1);
+      const inner = rest.replace(/^\s+/, '');
+      if (MAPPING_KEY.test(inner) && !/^["'[{]/.test(inner)) {
+        // "- key: value" starts a mapping nested in the sequence item.
+        const itemIndent = indent + 1 + (rest.length - inner.length);
+        this.lines[this.index] = ' '.repeat(itemIndent) + inner;
+        items.push(this.parseMapping(itemIndent));
+      } else {
+        items.push(this.parseValue(rest, indent));
+      }
+    }
+  }
+
+  // Parses the value that follows "key:" or "-" on the current line; `parentIndent`
+  // is the indentation of that key or dash.
+  private parseValue(rest: string, parentIndent: number): FrontmatterValue {
+    const startLine = this.index;
+    const value = rest.trim();
+    this.index++;
+
+    if (value === '' || value.startsWith('#')) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) return null;
+      const next = this.lines[this.index];
+      const nextIndent = indentOf(next);
+      const isSequence = /^-(\s|$)/.test(next.slice(nextIndent));
+      if (nextIndent > parentIndent) {
+        if (isSequence) return this.parseSequence(nextIndent);
+        const content = next.slice(nextIndent);
+        if (MAPPING_KEY.test(content)) return this.parseMapping(nextIndent);
+        // A scalar written on its own line below the key.
+        return this.parseValue(content, parentIndent);
+      }
+      // Block sequences may sit at the same indentation as their parent key.
+      if (nextIndent === parentIndent && isSequence && startLine >= 0 && !/^\s*-/.test(this.lines[startLine])) {
+        return this.parseSequence(nextIndent);
+      }
+      return null;
+    }
+
+    if (value.startsWith('|') || value.startsWith('>')) return this.parseBlockScalar(value, parentIndent, startLine);
+    if (value.startsWith('"')) return this.parseQuoted(rest.trimStart(), '"', startLine);
+    if (value.startsWith("'")) return this.parseQuoted(rest.trimStart(), "'", startLine);
+    if (value.startsWith('[') || value.startsWith('{')) return this.parseFlow(value, startLine);
+    if (/^[&*!]/.test(value)) this.fail('Anchors, aliases and tags are not supported', startLine);
+    return this.parsePlain(value, parentIndent);
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number, startLine: number): string {
+    const match = /^([|>])([1-9])?([-+])?([1-9])?\s*(#.*)?$/.exec(header);
+    if (!match) this.fail('Invalid block scalar header', startLine);
+    const [, style, indicatorA, chomp, indicatorB] = match;
+    const indicator = indicatorA ?? indicatorB;
+
+    const raw: string[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.trim() !== '' && indentOf(line) <= parentIndent) break;
+      raw.push(line);
+      this.index++;
+    }
+
+    const firstContent = raw.find((line) => line.trim() !== '');
+    const contentIndent = indicator
+      ? parentIndent + Number(indicator)
+      : firstContent
+        ? indentOf(firstContent)
+        : Math.max(parentIndent + 1, ...raw.map((line) => line.length));
+    const lines = raw.map((line) => (line.trim() === '' && line.length <= contentIndent ? '' : line.slice(contentIndent)));
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+
+    let text = '';
+    if (style === '|') {
+      text = lines.join('\n');
+    } else {
+      // Folded: single breaks between normal lines become spaces, empty lines
+      // become newlines, and breaks around more-indented lines are kept.
+      let previous: string | null = null;
+      let empties = 0;
+      lines.forEach((line) => {
+        if (line === '') {
+          empties++;
+          return;
+        }
+        if (previous === null) {
+          text += '\n'.repeat(empties);
+        } else if (/^\s/.test(line) || /^\s/.test(previous)) {
+          text += '\n'.repeat(empties + 1);
+        } else {
+          text += empties > 0 ? '\n'.repeat(empties) : ' ';
+        }
+        text += line;
+        previous = line;
+        empties = 0;
+      });
+    }
+
+    if (lines.length === 0) return chomp === '+' ? '\n'.repeat(trailing) : '';
+    if (chomp === '-') return text;
+    if (chomp === '+') return `${text}\n${'\n'.repeat(trailing)}`;
+    return `${text}\n`;
+  }
+
+  private parseQuoted(rest: string, quote: string, startLine: number): string {
+    // Gather lines until the closing quote, which may be on a later line.
+    let source = rest.slice(1);
+    let end = this.findClosingQuote(source, quote);
+    const parts: string[] = [];
+    while (end === -1) {
+      parts.push(source);
+      if (this.index >= this.lines.length) this.fail('Unterminated quoted string', startLine);
+      source = this.lines[this.index++];
+      end = this.findClosingQuote(source, quote);
+    }
+    parts.push(source.slice(0, end));
+    const after = source.slice(end + 1).trim();
+    if (after && !after.startsWith('#')) this.fail(`Unexpected "${after}" after quoted string`, this.index - 1);
+
+    // Fold the collected lines; in double quotes a trailing backslash joins lines without a space.
+    let folded = '';
+    let breaks = 0;
+    let glue = false;
+    parts.forEach((part, i) => {
+      const last = i === parts.length - 1;
+      let line = i === 0 ? part : part.trimStart();
+      let escapedBreak = false;
+      if (!last && quote === '"' && /(^|[^\\])(\\\\)*\\$/.test(line)) {
+        line = line.slice(0, -1);
+        escapedBreak = true;
+      } else if (!last) {
+        line = line.trimEnd();
+      }
+      if (i > 0 && line === '' && !last) {
+        breaks++;
+        return;
+      }
+      if (i > 0) folded += glue ? '' : breaks > 0 ? '\n'.repeat(breaks) : ' ';
+      folded += line;
+      breaks = 0;
+      glue = escapedBreak;
+    });
+    return quote === '"' ? unescapeDouble(folded, (m) => this.fail(m, startLine)) : folded.replace(/''/g, "'");
+  }
+
+  private findClosingQuote(source: string, quote: string): number {
+    for (let i = 0; i < source.length; i++) {
+      if (quote === '"' && source[i] === '\\') { i++; continue; }
+      if (source[i] !== quote) continue;
+      if (quote === "'" && source[i + 1] === "'") { i++; continue; }
+      return i;
+    }
+    return -1;
+  }
+
+  private parseFlow(value: string, startLine: number): FrontmatterValue {
+    let source = value;
+    const open = value[0];
+    const close = open === '[' ? ']' : '}';
+    while (!this.flowClosed(source)) {
+      if (this.index >= this.lines.length) this.fail(`Unterminated "${open}"`, startLine);
+      source += ` ${this.lines[this.index++].trim()}`;
+    }
+    source = source.replace(/\s+#.*$/, '').trim();
+    if (!source.endsWith(close)) this.fail(`Unexpected content after "${close}"`, startLine);
+    return this.parseFlowValue(source, startLine);
+  }
+
+  private flowClosed(source: string): boolean {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < source.length; i++) {
+      const ch = source[i];
+      if (quote) {
+        if (ch === '\\' && quote === '"') i++;
+        else if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") quote = ch;
+      else if (ch === '[' || ch === '{') depth++;
+      else if (ch === ']' || ch === '}') {
+        depth--;
+        if (depth === 0) return true;
+      }
+    }
+    return false;
+  }
+
+  private parseFlowValue(source: string, line: number): FrontmatterValue {
+    if (source.startsWith('[')) return splitFlow(source.slice(1, -1)).map((item) => this.parseFlowValue(item, line));
+    if (source.startsWith('{')) {
+      const data: FrontmatterData = {};
+      splitFlow(source.slice(1, -1)).forEach((item) => {
+        const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:]+?)\s*:\s*(.*)$/.exec(item);
+        if (!match) this.fail(`Invalid flow mapping entry "${item}"`, line);
+        data[this.parseKey(match[1])] = this.parseFlowValue(match[2], line);
+      });
+      return data;
+    }
+    if (source.startsWith('"')) return unescapeDouble(source.slice(1, -1), (m) => this.fail(m, line));
+    if (source.startsWith("'")) return source.slice(1, -1).replace(/''/g, "'");
+    return resolvePlain(source);
+  }
+
+  private parsePlain(value: string, parentIndent: number): FrontmatterValue {
+    const parts = [value.replace(/\s+#.*$/, '')];
+    // Continuation lines of a multi-line plain scalar are more indented than the key.
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (/^\s*#/.test(line)) break;
+      if (line.trim() !== '' && indentOf(line) <= parentIndent) break;
+      if (line.trim() !== '' && MAPPING_KEY.test(line.trim())) break;
+      parts.push(line.trim().replace(/\s+#.*$/, ''));
+      this.index++;
+    }
+    while (parts.length > 1 && parts[parts.length - 1] === '') parts.pop();
+    return parts.length === 1 ? resolvePlain(parts[0]) : foldLines(parts);
+  }
+}
+
+const FRONTMATTER = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+/**
+ * Splits a markdown document into its YAML frontmatter and body. Documents
+ * without frontmatter return empty data and the whole source as body.
+ */
+export function parseFrontmatter(source: string): { data: FrontmatterData; body: string } {
+  const match = FRONTMATTER.exec(source);
+  if (!match) return { data: {}, body: source };
+  const yaml = (match[1] ?? '').replace(/\r\n/g, '\n');
+  return { data: new FrontmatterParser(yaml, 1).parse(), body: match[2] };
+}
+
+// --- SKILL.md ---
+
+type SkillDefinition = Pick<AgentSkill, 'name' | 'description' | 'allowedTools' | 'license' | 'version' | 'metadata'>;
+
+const SKILL_KEYS = ['name', 'description', 'license', 'allowed-tools', 'metadata', 'version'];
+
+// Optional keys are left out when empty. The version lives in metadata, which the
+// spec keeps as a flat string-to-string map.
+export const skillFrontmatter = (skill: SkillDefinition): Record<string, FrontmatterValue | undefined> => {
+  const metadata = { ...(skill.version && { version: skill.version }), ...skill.metadata };
+  return {
+    name: skill.name,
+    description: skill.description,
+    license: skill.license || undefined,
+    'allowed-tools': skill.allowedTools?.length ? skill.allowedTools.join(' ') : undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+};
+
+/**
+ * Builds a complete SKILL.md. Shared by the editor preview and the bundle so
+ * both produce exactly the same YAML.
+ */
+export function serializeSkillMd(skill: SkillDefinition & Pick<AgentSkill, 'instructions'>): string {
+  return `${serializeFrontmatter(skillFrontmatter(skill))}\n\n${skill.instructions}`;
+}
+
+interface ParsedSkillMd extends Partial<SkillDefinition> {
+  instructions: string;
+  unknownKeys: string[];
+}
+
+export function parseSkillMd(source: string): ParsedSkillMd {
+  const { data, body } = parseFrontmatter(source);
+  const asString = (value: FrontmatterValue | undefined) =>
+    value === undefined || value === null || typeof value === 'object' ? undefined : String(value);
+  const unknownKeys = Object.keys(data).filter((k) => !SKILL_KEYS.includes(k));
+
+  // "allowed-tools" is space-delimited in the spec; lists and commas are accepted too.
+  const tools = data['allowed-tools'];
+  const allowedTools = (Array.isArray(tools) ? tools.map(asString) : (asString(tools) ?? '').split(/[\s,]+/))
+    .filter((tool): tool is string => !!tool);
+
+  const metadata: Record<string, string> = {};
+  const rawMetadata = data.metadata;
+  if (rawMetadata !== null && typeof rawMetadata === 'object' && !Array.isArray(rawMetadata)) {
+    Object.entries(rawMetadata).forEach(([key, value]) => {
+      const text = asString(value);
+      if (text === undefined) unknownKeys.push(`metadata.${key}`);
+      else metadata[key] = text;
+    });
+  } else if (rawMetadata !== undefined && rawMetadata !== null) {
+    unknownKeys.push('metadata');
+  }
+  // A top-level "version" is not in the spec, but older skills use it.
+  const version = metadata.version ?? asString(data.version);
+  delete metadata.version;
+
+  return {
+    name: asString(data.name),
+    description: asString(data.description),
+    license: asString(data.license),
+    allowedTools: allowedTools.length > 0 ? allowedTools : undefined,
+    version,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    instructions: body.replace(/^\s*\n/, '').trimEnd(),
+    unknownKeys,
+  };
+}
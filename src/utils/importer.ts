@@ -0,0 +1,340 @@
+import JSZip from 'jszip';
+import type { ConfigData, ContextSection, CustomCommand, AgentSkill, SkillFile, Extension, Settings, SettingsScope } from '../types';
+import { CURATED_EXTENSIONS } from '../data/marketplace';
+import { parseCommandToml } from './toml';
+import { parseSkillMd } from './frontmatter';
+import { USER_SETTINGS_FILE, SYSTEM_SETTINGS_FILE } from './bundle';
+import { getSettingsScope, mcpServerScopeKey, SETTINGS_SCOPES } from './settingsScopes';
+import { parseSandboxEnv, SANDBOX_DOCKERFILE_PATH, SANDBOX_ENV_PATH } from './sandbox';
+import { skillFileFromBytes, checkSkillFileSize, validateSkillFilePath } from './skillFiles';
+
+export interface ImportResult {
+  config: ConfigData;
+  // Human readable notes about everything that could not be mapped.
+  warnings: string[];
+}
+
+// Relative path -> raw file bytes, as found in the zip or folder.
+export type ImportFiles = Record<string, Uint8Array>;
+
+export interface ImportSource {
+  files: ImportFiles;
+  /** Paths marked executable. Only zips record permissions; picked folders never do. */
+  executables?: string[];
+}
+
+const KNOWN_ROOTS = ['GEMINI.md', '.gemini', '.skillz', 'setup.sh', USER_SETTINGS_FILE, SYSTEM_SETTINGS_FILE];
+
+const SETTINGS_FILES: Record<string, SettingsScope> = {
+  '.gemini/settings.json': 'workspace',
+  [USER_SETTINGS_FILE]: 'user',
+  [SYSTEM_SETTINGS_FILE]: 'system',
+};
+const IGNORED_NAMES = ['.DS_Store', 'Thumbs.db'];
+
+const decoder = new TextDecoder('utf-8');
+
+const normalizePath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+/, '');
+
+// Zips created by "compress folder" wrap everything in one top-level directory.
+const stripCommonRoot = (paths: string[]): string | null => {
+  if (paths.some((p) => KNOWN_ROOTS.includes(p.split('/')[0]))) return null;
+  const roots = new Set(paths.map((p) => p.split('/')[0]));
+  if (roots.size !== 1 || paths.some((p) => !p.includes('/'))) return null;
+  return `${[...roots][0]}/`;
+};
+
+// --- GEMINI.md ---
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+interface Heading {
+  line: number;
+  level: number;
+  title: string;
+}
+
+const findHeadings = (lines: string[]): Heading[] => {
+  const headings: Heading[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (inFence) return;
+    const match = HEADING.exec(line);
+    if (match) headings.push({ line: index, level: match[1].length, title: match[2] });
+  });
+  return headings;
+};
+
+const trimBlankLines = (lines: string[]) => lines.join('\n').replace(/^\s*\n/, '').trimEnd();
+
+export function parseGeminiMd(markdown: string): ContextSection[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const headings = findHeadings(lines);
+  if (headings.length === 0) {
+    return markdown.trim() ? [{ id: crypto.randomUUID(), title: 'Overview', content: markdown.trim(), enabled: true }] : [];
+  }
+
+  // Split on the shallowest level that is used more than once; a single "# Title"
+  // above several "## Sections" is treated as the document title.
+  const levels = [...new Set(headings.map((h) => h.level))].sort((a, b) => a - b);
+  const splitLevel = levels.find((level) => headings.filter((h) => h.level === level).length > 1) ?? levels[0];
+  const splits = headings.filter((h) => h.level === splitLevel);
+
+  const sections: ContextSection[] = [];
+  const preamble = lines.slice(0, splits[0].line);
+  const preambleHeading = headings.find((h) => h.line < splits[0].line);
+  const preambleBody = trimBlankLines(preambleHeading ? preamble.filter((_, i) => i !== preambleHeading.line) : preamble);
+  if (preambleBody) {
+    sections.push({ id: crypto.randomUUID(), title: preambleHeading?.title ?? 'Overview', content: preambleBody, enabled: true });
+  }
+
+  splits.forEach((heading, index) => {
+    const end = index + 1 < splits.length ? splits[index + 1].line : lines.length;
+    sections.push({
+      id: crypto.randomUUID(),
+      title: heading.title,
+      content: trimBlankLines(lines.slice(heading.line + 1, end)),
+      enabled: true,
+    });
+  });
+  return sections;
+}
+
+// --- setup.sh ---
+
+const extensionFromUrl = (url: string): Extension =>
+  CURATED_EXTENSIONS.find((ext) => ext.url === url) ?? {
+    id: url,
+    name: url.replace(/\/+$/, '').split('/').pop() || url,
+    description: 'Imported from setup.sh',
+    url,
+  };
+
+// --- command files ---
+
+// Bundles from before serializeCommandToml wrote `prompt = """\n<prompt>\n"""` with no header
+// comment, so every prompt gained a trailing newline. Current files round-trip exactly.
+const isLegacyCommandToml = (source: string) =>
+  !source.startsWith('# Invoked as:') && /(^|\n)prompt = """\r?\n[\s\S]*\r?\n"""\r?\n?$/.test(source);
+
+// --- settings files ---
+
+// Adds one settings file to the configuration, remembering which file each key (and MCP server) came from.
+// A key found in several files keeps the value Gemini CLI would use (system over workspace over user),
+// whatever order the files are read in.
+const addScopedSettings = (config: ConfigData, settings: Settings, scope: SettingsScope) => {
+  const precedence = (s: SettingsScope) => SETTINGS_SCOPES.indexOf(s);
+  const place = (scopeKey: string, exists: boolean, assign: () => void) => {
+    if (exists && precedence(getSettingsScope(config.settingsScopes, scopeKey)) > precedence(scope)) return;
+    assign();
+    if (scope === 'workspace') delete config.settingsScopes[scopeKey];
+    else config.settingsScopes[scopeKey] = scope;
+  };
+
+  const { mcpServers, ...rest } = settings;
+  Object.entries(rest).forEach(([key, value]) => {
+    place(key, key in config.settings, () => { config.settings[key] = value; });
+  });
+  if (mcpServers === undefined) return;
+  Object.entries(mcpServers).forEach(([name, server]) => {
+    place(mcpServerScopeKey(name), name in (config.settings.mcpServers ?? {}), () => {
+      config.settings.mcpServers = { ...config.settings.mcpServers, [name]: server };
+    });
+  });
+};
+
+export function importConfigFiles(rawFiles: ImportFiles, rawExecutables: string[] = []): ImportResult {
+  const warnings: string[] = [];
+  const config: ConfigData = { settings: {}, settingsScopes: {}, sandbox: {}, commands: [], contextSections: [], activeExtensions: [], skills: [] };
+
+  let paths = Object.keys(rawFiles)
+    .map(normalizePath)
+    .filter((p) => p && !p.startsWith('__MACOSX/') && !IGNORED_NAMES.includes(p.split('/').pop()!));
+  const files: ImportFiles = {};
+  Object.entries(rawFiles).forEach(([path, bytes]) => { files[normalizePath(path)] = bytes; });
+
+  const root = stripCommonRoot(paths);
+  if (root) {
+    paths.forEach((p) => { files[p.slice(root.length)] = files[p]; });
+    paths = paths.map((p) => p.slice(root.length));
+  }
+  const executables = new Set(rawExecutables.map((p) => normalizePath(p).slice(root?.length ?? 0)));
+
+  const text = (path: string) => decoder.decode(files[path]);
+  const skillFiles = new Map<string, { skillMd?: string; files: SkillFile[] }>();
+
+  paths.sort().forEach((path) => {
+    if (path === 'GEMINI.md') {
+      config.contextSections = parseGeminiMd(text(path));
+      return;
+    }
+
+    const scope = SETTINGS_FILES[path];
+    if (scope) {
+      try {
+        const parsed = JSON.parse(text(path));
+        if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+          addScopedSettings(config, parsed as Settings, scope);
+        } else {
+          warnings.push(`${path}: expected a JSON object, ignored.`);
+        }
+      } catch (error) {
+        warnings.push(`${path}: invalid JSON (${(error as Error).message}), ignored.`);
+      }
+      return;
+    }
+
+    if (path === SANDBOX_ENV_PATH) {
+      const { sandbox, ignored } = parseSandboxEnv(text(path));
+      config.sandbox = { ...config.sandbox, ...sandbox };
+      if (ignored.length > 0) warnings.push(`${path}: only sandbox variables are imported; ignored ${ignored.join(', ')}.`);
+      return;
+    }
+
+    if (path === SANDBOX_DOCKERFILE_PATH) {
+      config.sandbox = { ...config.sandbox, dockerfile: text(path) };
+      return;
+    }
+
+    if (path.startsWith('.gemini/commands/')) {
+      const relative = path.slice('.gemini/commands/'.length);
+      if (!relative.endsWith('.toml')) {
+        warnings.push(`${path}: not a .toml command file, ignored.`);
+        return;
+      }
+      let fields: ReturnType<typeof parseCommandToml>;
+      try {
+        fields = parseCommandToml(text(path));
+      } catch (error) {
+        warnings.push(`${path}: invalid TOML (${(error as Error).message}), command skipped.`);
+        return;
+      }
+      if (!fields.prompt) {
+        warnings.push(`${path}: no "prompt" found, command skipped.`);
+        return;
+      }
+      if (fields.unknownKeys.length > 0) warnings.push(`${path}: unsupported keys dropped: ${fields.unknownKeys.join(', ')}.`);
+      const command: CustomCommand = {
+        id: crypto.randomUUID(),
+        name: relative.slice(0, -'.toml'.length).split('/').join(':'),
+        description: fields.description ?? '',
+        prompt: isLegacyCommandToml(text(path)) ? fields.prompt.replace(/\r?\n$/, '') : fields.prompt,
+      };
+      config.commands.push(command);
+      return;
+    }
+
+    if (path.startsWith('.skillz/')) {
+      const [, skillName, ...rest] = path.split('/');
+      const relative = rest.join('/');
+      if (!relative) {
+        warnings.push(`${path}: stray file outside a skill folder, ignored.`);
+        return;
+      }
+      const entry = skillFiles.get(skillName) ?? { files: [] };
+      skillFiles.set(skillName, entry);
+      if (relative === 'SKILL.md') {
+        entry.skillMd = text(path);
+      } else {
+        const pathError = validateSkillFilePath(relative);
+        if (pathError) {
+          warnings.push(`${path}: ${pathError} File skipped.`);
+          return;
+        }
+        const tooLarge = checkSkillFileSize(path, files[path].length);
+        if (tooLarge) warnings.push(`${tooLarge} It was imported, but may not fit in browser storage.`);
+        entry.files.push(skillFileFromBytes(relative, files[path], executables.has(path)));
+      }
+      return;
+    }
+
+    if (path === 'setup.sh') {
+      const urls = [...text(path).matchAll(/^\s*gemini\s+extensions\s+install\s+(\S+)/gm)].map((m) => m[1]);
+      config.activeExtensions = [...new Set(urls)].map(extensionFromUrl);
+      return;
+    }
+
+    warnings.push(`${path}: not part of a Gemini CLI configuration, ignored.`);
+  });
+
+  skillFiles.forEach((entry, folder) => {
+    if (entry.skillMd === undefined) {
+      warnings.push(`.skillz/${folder}: no SKILL.md found, skill skipped.`);
+      return;
+    }
+    let parsed: ReturnType<typeof parseSkillMd>;
+    try {
+      parsed = parseSkillMd(entry.skillMd);
+    } catch (error) {
+      warnings.push(`.skillz/${folder}/SKILL.md: invalid frontmatter (${(error as Error).message}), skill skipped.`);
+      return;
+    }
+    if (parsed.unknownKeys.length > 0) {
+      warnings.push(`.skillz/${folder}/SKILL.md: unsupported frontmatter dropped: ${parsed.unknownKeys.join(', ')}.`);
+    }
+    if (parsed.name && parsed.name !== folder) {
+      warnings.push(`.skillz/${folder}/SKILL.md: name "${parsed.name}" differs from its folder; using the folder name.`);
+    }
+    const skill: AgentSkill = {
+      id: crypto.randomUUID(),
+      name: folder,
+      description: parsed.description ?? '',
+      instructions: parsed.instructions,
+      files: entry.files,
+      allowedTools: parsed.allowedTools,
+      license: parsed.license,
+      version: parsed.version,
+      metadata: parsed.metadata,
+    };
+    config.skills.push(skill);
+  });
+
+  // Exported settings include the MCP servers of selected extensions; hand those back to the
+  // extension instead of duplicating them as the user's own servers.
+  const mcpServers = config.settings.mcpServers;
+  if (mcpServers) {
+    config.activeExtensions.forEach((ext) => {
+      Object.entries(ext.mcpConfig ?? {}).forEach(([name, server]) => {
+        if (JSON.stringify(mcpServers[name]) === JSON.stringify(server)) delete mcpServers[name];
+      });
+    });
+  }
+
+  if (!paths.includes('GEMINI.md')) warnings.push('No GEMINI.md found; context is empty.');
+  if (!paths.includes('.gemini/settings.json')) warnings.push('No .gemini/settings.json found; settings are empty.');
+
+  return { config, warnings };
+}
+
+// Owner-execute bit of the UNIX mode stored by zip tools on macOS and Linux.
+const OWNER_EXECUTE = 0o100;
+
+export async function readZipFile(file: Blob): Promise<ImportSource> {
+  const zip = await JSZip.loadAsync(file);
+  const files: ImportFiles = {};
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  await Promise.all(entries.map(async (entry) => { files[entry.name] = await entry.async('uint8array'); }));
+  const executables = entries
+    .filter((entry) => typeof entry.unixPermissions === 'number' && (entry.unixPermissions & OWNER_EXECUTE) !== 0)
+    .map((entry) => entry.name);
+  return { files, executables };
+}
+
+// Files picked through <input webkitdirectory> carry the chosen folder as the first path segment.
+// A picked project folder also holds node_modules, .git and sources, so only files under the
+// configuration roots are read.
+export async function readFolderFiles(fileList: FileList | File[]): Promise<ImportSource> {
+  const files: ImportFiles = {};
+  await Promise.all(
+    Array.from(fileList).map(async (file) => {
+      const full = file.webkitRelativePath || file.name;
+      const path = full.split('/').slice(1).join('/') || full;
+      if (!KNOWN_ROOTS.includes(path.split('/')[0])) return;
+      files[path] = new Uint8Array(await file.arrayBuffer());
+    })
+  );
+  return { files };
+}
@@ -0,0 +1,140 @@
+// A small JSON Schema validator covering the subset of draft-07 the bundled
+// schemas use. Unlike a strict validator it reports unknown object keys as
+// warnings, because Gemini CLI ignores keys it does not know instead of failing.
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  /** `undefined` warns about unknown keys, `false` rejects them, a schema validates their values. */
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+  /** Replaces the generated message when `anyOf` or `pattern` fails (as in ajv-errors). */
+  errorMessage?: string;
+  // Non-standard keywords that lay out the generated settings form; validators ignore them.
+  /** Form section a top-level property is shown in. */
+  group?: string;
+  /** Edited by a dedicated panel (MCP servers, sandbox, themes) instead of the generated form. */
+  hideInForm?: boolean;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+  severity: IssueSeverity;
+}
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/** Formats a path the way it reads in settings.json, e.g. `mcpServers.github.args[0]`. */
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((text, part) => (typeof part === 'number' ? `${text}[${part}]` : text ? `${text}.${part}` : part), '');
+}
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: (string | number)[] = []): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (message: string, at = path) => issues.push({ path: at, message, severity: 'error' });
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((branch) => validateJsonSchema(value, branch, path));
+    if (!results.some((r) => r.every((i) => i.severity !== 'error'))) {
+      // Prefer the branch of the right type so nested errors stay precise.
+      const sameType = schema.anyOf.findIndex((b) => !b.type || [b.type].flat().some((t) => matchesType(value, t)));
+      if (schema.errorMessage || sameType === -1) {
+        const types = schema.anyOf.flatMap((b) => [b.type ?? []].flat());
+        error(schema.errorMessage ?? `Expected ${[...new Set(types)].join(' or ')}, got ${typeOf(value)}.`);
+      } else {
+        issues.push(...results[sameType]);
+      }
+    } else {
+      issues.push(...results.flat().filter((i) => i.severity === 'warning'));
+    }
+  }
+
+  if (schema.type) {
+    const types = [schema.type].flat();
+    if (!types.some((t) => matchesType(value, t))) {
+      error(`Expected ${types.join(' or ')}, got ${typeOf(value)}.`);
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    error(`Must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}.`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      error(schema.minLength === 1 ? 'Must not be empty.' : `Must be at least ${schema.minLength} characters.`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) error(schema.errorMessage ?? `Does not match the expected format ${schema.pattern}.`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) error(`Must be at least ${schema.minimum}.`);
+    if (schema.maximum !== undefined && value > schema.maximum) error(`Must be at most ${schema.maximum}.`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, idx) => issues.push(...validateJsonSchema(item, itemSchema, [...path, idx])));
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set<string>();
+      value.forEach((item, idx) => {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) issues.push({ path: [...path, idx], message: `Duplicate entry ${key}.`, severity: 'warning' });
+        seen.add(key);
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach((key) => {
+      if (!(key in record)) error(`Missing required property "${key}".`);
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      const childPath = [...path, key];
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateJsonSchema(child, propertySchema, childPath));
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(child, schema.additionalProperties, childPath));
+      } else if (schema.additionalProperties === false) {
+        error(`Property "${key}" is not allowed here.`, childPath);
+      } else if (schema.properties) {
+        issues.push({ path: childPath, message: `Unknown setting "${key}". It is kept in the export, but Gemini CLI may ignore it.`, severity: 'warning' });
+      }
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,182 @@
+import type { Extension, McpConflictResolution, McpServerConfig, Settings } from '../types';
+
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+export const MCP_TRANSPORT_LABELS: Record<McpTransport, string> = {
+  stdio: 'Local command (stdio)',
+  sse: 'Server-Sent Events (url)',
+  http: 'Streamable HTTP (httpUrl)',
+};
+
+// Editable form of a server: every field present, maps as ordered rows so
+// half-typed entries (e.g. a key without a value yet) survive re-renders.
+export interface McpServerDraft {
+  name: string;
+  transport: McpTransport;
+  command: string;
+  args: string[];
+  env: [string, string][];
+  cwd: string;
+  url: string;
+  headers: [string, string][];
+  timeout: string;
+  trust: boolean;
+  includeTools: string[];
+  excludeTools: string[];
+}
+
+export type McpServerErrors = Partial<Record<keyof McpServerDraft, string>>;
+
+export function getMcpTransport(server: McpServerConfig): McpTransport {
+  if (server.httpUrl) return 'http';
+  if (server.url) return 'sse';
+  return 'stdio';
+}
+
+export function toMcpServerDraft(name = '', server: McpServerConfig = {}): McpServerDraft {
+  const transport = getMcpTransport(server);
+  return {
+    name,
+    transport,
+    command: server.command ?? '',
+    args: server.args ?? [],
+    env: Object.entries(server.env ?? {}),
+    cwd: server.cwd ?? '',
+    url: (transport === 'http' ? server.httpUrl : server.url) ?? '',
+    headers: Object.entries(server.headers ?? {}),
+    timeout: server.timeout !== undefined ? String(server.timeout) : '',
+    trust: server.trust ?? false,
+    includeTools: server.includeTools ?? [],
+    excludeTools: server.excludeTools ?? [],
+  };
+}
+
+// Fields the editor owns; anything else on an existing server (e.g. "oauth") is carried over untouched.
+const EDITED_KEYS: (keyof McpServerConfig)[] = [
+  'command', 'args', 'env', 'cwd', 'url', 'httpUrl', 'headers', 'timeout', 'trust', 'includeTools', 'excludeTools',
+];
+
+/** Converts a validated draft back into settings.json form, leaving out empty and unused fields. */
+export function fromMcpServerDraft(draft: McpServerDraft, original: McpServerConfig = {}): { name: string; server: McpServerConfig } {
+  const server: McpServerConfig = Object.fromEntries(
+    Object.entries(original).filter(([key]) => !EDITED_KEYS.includes(key as keyof McpServerConfig))
+  );
+  const rows = (entries: [string, string][]) =>
+    entries.length > 0 ? Object.fromEntries(entries.map(([k, v]) => [k.trim(), v])) : undefined;
+
+  if (draft.transport === 'stdio') {
+    server.command = draft.command.trim();
+    if (draft.args.length > 0) server.args = draft.args;
+    server.env = rows(draft.env);
+    if (draft.cwd.trim()) server.cwd = draft.cwd.trim();
+  } else {
+    server[draft.transport === 'http' ? 'httpUrl' : 'url'] = draft.url.trim();
+    server.headers = rows(draft.headers);
+  }
+  if (draft.timeout.trim()) server.timeout = Number(draft.timeout);
+  if (draft.trust) server.trust = true;
+  if (draft.includeTools.length > 0) server.includeTools = draft.includeTools;
+  if (draft.excludeTools.length > 0) server.excludeTools = draft.excludeTools;
+
+  (Object.keys(server) as (keyof McpServerConfig)[]).forEach((key) => {
+    if (server[key] === undefined) delete server[key];
+  });
+  return { name: draft.name.trim(), server };
+}
+
+const SERVER_NAME = /^[A-Za-z0-9_-]+$/;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const duplicateKey = (entries: [string, string][]) => {
+  const seen = new Set<string>();
+  return entries.map(([k]) => k.trim()).find((k) => (seen.has(k) ? true : (seen.add(k), false)));
+};
+
+/** Returns an error message per invalid field; an empty object means the draft can be saved. */
+export function validateMcpServerDraft(draft: McpServerDraft, otherNames: string[]): McpServerErrors {
+  const errors: McpServerErrors = {};
+  const name = draft.name.trim();
+
+  if (!name) errors.name = 'A server name is required.';
+  else if (!SERVER_NAME.test(name)) errors.name = 'Use only letters, digits, "-" and "_"; the name prefixes tool names.';
+  else if (otherNames.includes(name)) errors.name = `A server named "${name}" already exists.`;
+
+  if (draft.transport === 'stdio') {
+    if (!draft.command.trim()) errors.command = 'The command to start the server is required.';
+    const badEnv = draft.env.find(([k]) => !ENV_NAME.test(k.trim()));
+    if (badEnv) errors.env = `"${badEnv[0]}" is not a valid environment variable name.`;
+    else if (duplicateKey(draft.env)) errors.env = `"${duplicateKey(draft.env)}" is set twice.`;
+  } else {
+    if (!draft.url.trim()) errors.url = 'The server URL is required.';
+    else if (!isHttpUrl(draft.url.trim())) errors.url = 'Enter a full http:// or https:// URL.';
+    const badHeader = draft.headers.find(([k]) => !HEADER_NAME.test(k.trim()));
+    if (badHeader) errors.headers = `"${badHeader[0]}" is not a valid header name.`;
+    else if (duplicateKey(draft.headers)) errors.headers = `"${duplicateKey(draft.headers)}" is set twice.`;
+  }
+
+  if (draft.timeout.trim() && !/^\d+$/.test(draft.timeout.trim())) {
+    errors.timeout = 'Timeout must be a whole number of milliseconds.';
+  }
+
+  const both = draft.includeTools.filter((t) => draft.excludeTools.includes(t));
+  if (both.length > 0) errors.excludeTools = `Listed as both included and excluded: ${both.join(', ')}`;
+
+  return errors;
+}
+
+// --- Extension servers ---
+
+export interface McpServerConflict {
+  serverName: string;
+  extension: Extension;
+  /** Who defined the server first: the user ("settings") or an earlier extension. */
+  existingSource: string;
+  resolution?: McpConflictResolution;
+}
+
+export interface MergedMcpServers {
+  servers: Record<string, McpServerConfig>;
+  /** Server name -> name of the extension that contributed it; absent for the user's own servers. */
+  origins: Record<string, string>;
+  conflicts: McpServerConflict[];
+}
+
+/**
+ * Adds the MCP servers of the selected extensions to the user's own servers.
+ * A name that is already taken is reported as a conflict and only replaced when
+ * the extension's stored resolution says so.
+ */
+export function mergeExtensionMcpServers(userServers: Record<string, McpServerConfig> = {}, extensions: Extension[]): MergedMcpServers {
+  const servers = { ...userServers };
+  const origins: Record<string, string> = {};
+  const conflicts: McpServerConflict[] = [];
+
+  extensions.forEach((extension) => {
+    Object.entries(extension.mcpConfig ?? {}).forEach(([serverName, server]) => {
+      if (serverName in servers) {
+        const resolution = extension.mcpConflictResolution?.[serverName];
+        conflicts.push({ serverName, extension, existingSource: origins[serverName] ?? 'settings', resolution });
+        if (resolution !== 'use-extension') return;
+      }
+      servers[serverName] = server;
+      origins[serverName] = extension.name;
+    });
+  });
+
+  return { servers, origins, conflicts };
+}
+
+/** The settings as exported: the user's settings with extension MCP servers merged in. */
+export function resolveExportedSettings(settings: Settings, extensions: Extension[]): Settings {
+  if (!extensions.some((e) => e.mcpConfig && Object.keys(e.mcpConfig).length > 0)) return settings;
+  return { ...settings, mcpServers: mergeExtensionMcpServers(settings.mcpServers, extensions).servers };
+}
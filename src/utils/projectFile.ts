@@ -0,0 +1,42 @@
+import type { ConfigData } from '../types';
+import { createDefaultConfig } from '../store/config';
+import { sanitizeConfig } from '../store/sanitize';
+
+// A saved project is the full editable configuration (not the generated bundle),
+// so it can be reopened in the configurator or fed to the command-line generator.
+
+export const PROJECT_FORMAT = 'gemini-configurator-project';
+export const PROJECT_VERSION = 1;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  config: ConfigData;
+}
+
+export function serializeProject(config: ConfigData, name: string): string {
+  const project: ProjectFile = { format: PROJECT_FORMAT, version: PROJECT_VERSION, name, config };
+  return JSON.stringify(project, null, 2);
+}
+
+/** Parses and sanitizes a project file; throws with a readable message if it is not one. */
+export function parseProject(json: string): { name: string; config: ConfigData } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+  const project = data as Partial<ProjectFile> | null;
+  if (!project || typeof project !== 'object' || project.format !== PROJECT_FORMAT) {
+    throw new Error('Not a Gemini configurator project file.');
+  }
+  if (typeof project.version !== 'number' || project.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project file version ${String(project.version)}.`);
+  }
+  return {
+    name: typeof project.name === 'string' ? project.name : 'Imported Project',
+    config: { ...createDefaultConfig(), ...sanitizeConfig(project.config) },
+  };
+}
@@ -0,0 +1,127 @@
+import type { SandboxConfig, Settings } from '../types';
+
+// "sandbox" in settings.json turns Gemini CLI's sandbox on; the image, extra environment
+// and mounts are read from environment variables, which Gemini CLI also loads from
+// .gemini/.env. A custom image is described by .gemini/sandbox.Dockerfile.
+
+export const SANDBOX_DOCKERFILE_PATH = '.gemini/sandbox.Dockerfile';
+export const SANDBOX_ENV_PATH = '.gemini/.env';
+
+export type SandboxRuntime = 'none' | 'auto' | 'docker' | 'podman';
+
+export const SANDBOX_RUNTIME_LABELS: Record<SandboxRuntime, string> = {
+  none: 'None',
+  auto: 'Auto-detect (Docker or Podman)',
+  docker: 'Docker',
+  podman: 'Podman',
+};
+
+export const getSandboxRuntime = (sandbox: Settings['sandbox']): SandboxRuntime =>
+  sandbox === 'docker' || sandbox === 'podman' ? sandbox : sandbox === true ? 'auto' : 'none';
+
+/** The settings.json "sandbox" value for a runtime; `undefined` leaves the key out. */
+export const toSandboxSetting = (runtime: SandboxRuntime): Settings['sandbox'] =>
+  runtime === 'none' ? undefined : runtime === 'auto' ? true : runtime;
+
+export const isYoloWithoutSandbox = (settings: Settings) => settings.autoAccept === true && !settings.sandbox;
+
+export const SANDBOX_DOCKERFILE_TEMPLATE = `# Custom sandbox image for Gemini CLI.
+# Build and use it with: BUILD_SANDBOX=1 gemini --sandbox
+FROM gemini-cli-sandbox
+
+# Install the tools your project needs, e.g.:
+# RUN apt-get update && apt-get install -y --no-install-recommends python3 python3-pip \\
+#     && rm -rf /var/lib/apt/lists/*
+
+# Copy project-specific configuration into the image, e.g.:
+# COPY ./config /app/config
+`;
+
+export type SandboxErrors = Partial<Record<'image' | 'env' | 'mounts', string>>;
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MOUNT_OPTIONS = ['ro', 'rw'];
+
+/** Splits a SANDBOX_MOUNTS entry ("from[:to[:opts]]") into its parts. */
+export const parseMount = (mount: string) => {
+  const [from, to = from, options = 'ro'] = mount.split(':');
+  return { from, to, options };
+};
+
+export function validateSandboxConfig(sandbox: SandboxConfig): SandboxErrors {
+  const errors: SandboxErrors = {};
+
+  if (sandbox.image !== undefined && /\s/.test(sandbox.image)) errors.image = 'An image name cannot contain spaces.';
+
+  const badEnv = Object.entries(sandbox.env ?? {}).find(([key, value]) => !ENV_NAME.test(key) || value.includes(','));
+  if (badEnv) {
+    errors.env = ENV_NAME.test(badEnv[0])
+      ? `${badEnv[0]}: values cannot contain commas (SANDBOX_ENV is comma-separated).`
+      : `"${badEnv[0]}" is not a valid variable name.`;
+  }
+
+  for (const mount of sandbox.mounts ?? []) {
+    const { from, to, options } = parseMount(mount);
+    if (mount.includes(',')) errors.mounts = `${mount}: mounts cannot contain commas.`;
+    else if (mount.split(':').length > 3) errors.mounts = `${mount}: expected host-path:container-path:ro.`;
+    else if (!from.startsWith('/')) errors.mounts = `${mount}: the host path must be absolute.`;
+    else if (!to.startsWith('/')) errors.mounts = `${mount}: the container path must be absolute.`;
+    else if (!MOUNT_OPTIONS.includes(options)) errors.mounts = `${mount}: options must be "ro" or "rw".`;
+    if (errors.mounts) break;
+  }
+
+  return errors;
+}
+
+const formatEnvValue = (value: string) => (/[\s#"'\\]/.test(value) ? JSON.stringify(value) : value);
+
+/** The .gemini/.env lines for the sandbox, or null when nothing needs to be set. */
+export function generateSandboxEnv(sandbox: SandboxConfig): string | null {
+  const vars: [string, string][] = [];
+  if (sandbox.image) vars.push(['GEMINI_SANDBOX_IMAGE', sandbox.image]);
+  const env = Object.entries(sandbox.env ?? {});
+  if (env.length > 0) vars.push(['SANDBOX_ENV', env.map(([key, value]) => `${key}=${value}`).join(',')]);
+  if (sandbox.mounts?.length) vars.push(['SANDBOX_MOUNTS', sandbox.mounts.join(',')]);
+  if (vars.length === 0) return null;
+
+  return `# Sandbox options for Gemini CLI, loaded automatically from .gemini/.env
+${vars.map(([key, value]) => `${key}=${formatEnvValue(value)}`).join('\n')}
+`;
+}
+
+const unquote = (value: string): string => {
+  const quoted = /^"(.*)"$/.exec(value) ?? /^'(.*)'$/.exec(value);
+  if (!quoted) return value.replace(/\s+#.*$/, '');
+  try {
+    return value.startsWith('"') ? JSON.parse(value) : quoted[1];
+  } catch {
+    return quoted[1];
+  }
+};
+
+/** Reads the sandbox variables back from a .env file; other variables are reported, not kept. */
+export function parseSandboxEnv(text: string): { sandbox: SandboxConfig; ignored: string[] } {
+  const sandbox: SandboxConfig = {};
+  const ignored: string[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) return;
+    const [, key, raw] = match;
+    const value = unquote(raw);
+    if (key === 'GEMINI_SANDBOX_IMAGE') {
+      sandbox.image = value;
+    } else if (key === 'SANDBOX_ENV') {
+      sandbox.env = Object.fromEntries(
+        value.split(',').filter(Boolean).map((pair) => {
+          const idx = pair.indexOf('=');
+          return idx === -1 ? [pair, ''] : [pair.slice(0, idx), pair.slice(idx + 1)];
+        })
+      );
+    } else if (key === 'SANDBOX_MOUNTS') {
+      sandbox.mounts = value.split(',').map((m) => m.trim()).filter(Boolean);
+    } else {
+      ignored.push(key);
+    }
+  });
+  return { sandbox, ignored };
+}
@@ -0,0 +1,65 @@
+import type { Settings, SettingsScope } from '../types';
+
+// Gemini CLI reads settings from three files and layers them: system settings
+// override workspace settings, which override user settings.
+
+export const SETTINGS_SCOPES: SettingsScope[] = ['user', 'workspace', 'system'];
+
+export const SETTINGS_SCOPE_LABELS: Record<SettingsScope, string> = {
+  user: 'User',
+  workspace: 'Workspace',
+  system: 'System',
+};
+
+/** Where Gemini CLI looks for each file (the system path shown is the Linux one). */
+export const SETTINGS_SCOPE_PATHS: Record<SettingsScope, string> = {
+  user: '~/.gemini/settings.json',
+  workspace: '.gemini/settings.json',
+  system: '/etc/gemini-cli/settings.json',
+};
+
+/** Scope map key of a single MCP server, so servers can be placed individually. */
+export const mcpServerScopeKey = (name: string) => `mcpServers.${name}`;
+
+export const getSettingsScope = (scopes: Record<string, SettingsScope>, key: string): SettingsScope =>
+  scopes[key] ?? 'workspace';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Splits settings into the three files. An empty `mcpServers` map is dropped rather than placed. */
+export function splitSettingsByScope(settings: Settings, scopes: Record<string, SettingsScope>): Record<SettingsScope, Settings> {
+  const split: Record<SettingsScope, Settings> = { user: {}, workspace: {}, system: {} };
+  const { mcpServers, ...rest } = settings;
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value !== undefined) split[getSettingsScope(scopes, key)][key] = value;
+  });
+  Object.entries(mcpServers ?? {}).forEach(([name, server]) => {
+    const target = split[getSettingsScope(scopes, mcpServerScopeKey(name))];
+    target.mcpServers = { ...target.mcpServers, [name]: server };
+  });
+  return split;
+}
+
+// MCP servers and custom themes are merged by name like Gemini CLI does; every
+// other key is replaced wholesale by the higher scope.
+const MERGED_BY_NAME = ['mcpServers', 'customThemes'];
+
+/** The settings Gemini CLI ends up with after layering the three files. */
+export function mergeSettingsScopes(split: Record<SettingsScope, Settings>): Settings {
+  const { user, workspace, system } = split;
+  const merged: Settings = { ...user, ...workspace, ...system };
+  MERGED_BY_NAME.forEach((key) => {
+    if ([user, workspace, system].some((s) => isRecord(s[key]))) {
+      merged[key] = { ...user[key], ...workspace[key], ...system[key] };
+    }
+  });
+  return merged;
+}
+
+/** The scope a key of the merged settings came from, for top-level keys and single MCP servers. */
+export function scopeOfPath(path: (string | number)[], scopes: Record<string, SettingsScope>): SettingsScope | undefined {
+  if (path.length === 1 && path[0] !== 'mcpServers') return getSettingsScope(scopes, String(path[0]));
+  if (path.length === 2 && path[0] === 'mcpServers') return getSettingsScope(scopes, mcpServerScopeKey(String(path[1])));
+  return undefined;
+}
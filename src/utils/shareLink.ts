@@ -0,0 +1,90 @@
+import type { ConfigData } from '../types';
+import { createDefaultConfig } from '../store/config';
+import { sanitizeConfig } from '../store/sanitize';
+
+// Share links carry the configuration in the URL fragment (never sent to a server)
+// as "#share=v1.<base64url(deflate-raw(JSON))>".
+
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 'v1';
+
+// Links longer than this get mangled by chat apps, email clients and some browsers.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export class ShareLinkTooLargeError extends ShareLinkError {
+  length: number;
+
+  constructor(length: number) {
+    super(`The link would be ${length.toLocaleString()} characters long; the limit is ${MAX_SHARE_URL_LENGTH.toLocaleString()}.`);
+    this.name = 'ShareLinkTooLargeError';
+    this.length = length;
+  }
+}
+
+interface SharePayload {
+  name: string;
+  config: ConfigData;
+}
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+};
+
+export async function encodeSharePayload(config: ConfigData, name: string): Promise<string> {
+  const json = JSON.stringify({ name, config } satisfies SharePayload);
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${SHARE_VERSION}.${toBase64Url(compressed)}`;
+}
+
+export async function decodeSharePayload(payload: string): Promise<SharePayload> {
+  const [version, data] = payload.split('.', 2);
+  if (version !== SHARE_VERSION || !data) {
+    throw new ShareLinkError(`Unsupported share link format "${version}". It may come from a newer version of the configurator.`);
+  }
+
+  let parsed: Partial<SharePayload>;
+  try {
+    const json = new TextDecoder().decode(await transform(fromBase64Url(data), new DecompressionStream('deflate-raw')));
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ShareLinkError('The share link is corrupt or was truncated.');
+  }
+  return {
+    name: typeof parsed.name === 'string' ? parsed.name : 'Shared Configuration',
+    config: { ...createDefaultConfig(), ...sanitizeConfig(parsed.config) },
+  };
+}
+
+/** Builds the full share URL for the current page, or throws ShareLinkTooLargeError. */
+export async function buildShareUrl(config: ConfigData, name: string, baseUrl = window.location.href): Promise<string> {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_PARAM}=${await encodeSharePayload(config, name)}`;
+  const href = url.toString();
+  if (href.length > MAX_SHARE_URL_LENGTH) throw new ShareLinkTooLargeError(href.length);
+  return href;
+}
+
+/** Extracts the payload from a location hash such as "#share=v1.abc", if present. */
+export function readSharePayload(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(SHARE_PARAM);
+}
@@ -0,0 +1,134 @@
+import type { SkillFile } from '../types';
+import { formatBytes } from './fileNames';
+
+// Skill helper files are kept in the configuration as strings: text as-is, anything
+// else (images, PDFs, compiled helpers) base64-encoded with encoding: 'base64'.
+
+/** Per-file upload limit. The whole configuration lives in browser storage, which holds a few MB at most. */
+export const MAX_SKILL_FILE_BYTES = 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+/** The image MIME type for a file name, or null for anything that cannot be shown as an image. */
+export const imageMimeType = (name: string) => IMAGE_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+export const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8000).includes(0);
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large files do not overflow the argument list of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+export const decodeBase64 = (base64: string) => Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+type StoredContent = Pick<SkillFile, 'content' | 'encoding'>;
+
+export const isBinarySkillFile = (file: StoredContent) => file.encoding === 'base64';
+
+/** Size of the file as written to disk. */
+export function skillFileSize(file: StoredContent): number {
+  if (!isBinarySkillFile(file)) return new TextEncoder().encode(file.content).length;
+  const padding = file.content.endsWith('==') ? 2 : file.content.endsWith('=') ? 1 : 0;
+  return Math.floor((file.content.length * 3) / 4) - padding;
+}
+
+/** A skill file for raw bytes: UTF-8 text stays editable, anything else is stored as base64. */
+export function skillFileFromBytes(name: string, bytes: Uint8Array, executable = false): SkillFile {
+  const file: SkillFile = { id: crypto.randomUUID(), name, content: '' };
+  let text: string | null = null;
+  if (!looksBinary(bytes)) {
+    try {
+      text = utf8.decode(bytes);
+    } catch {
+      text = null;
+    }
+  }
+  if (text === null) {
+    file.content = encodeBase64(bytes);
+    file.encoding = 'base64';
+  } else {
+    file.content = text;
+  }
+  // Browsers do not expose file modes; a shebang is the best hint for an uploaded script.
+  if (executable || text?.startsWith('#!')) file.executable = true;
+  return file;
+}
+
+/** Why a file of `size` bytes cannot be added to a skill, or null. */
+export const checkSkillFileSize = (name: string, size: number) =>
+  size > MAX_SKILL_FILE_BYTES
+    ? `"${name}" is ${formatBytes(size)}; skill files are limited to ${formatBytes(MAX_SKILL_FILE_BYTES)} because the configuration is kept in browser storage.`
+    : null;
+
+/** A data: URL for showing an image skill file, or null. */
+export function skillFileImageUrl(file: StoredContent & { name: string }): string | null {
+  const type = imageMimeType(file.name);
+  if (!type) return null;
+  return isBinarySkillFile(file)
+    ? `data:${type};base64,${file.content}`
+    : `data:${type};charset=utf-8,${encodeURIComponent(file.content)}`;
+}
+
+// --- Paths ---
+// SkillFile.name is a path relative to the skill folder, e.g. "scripts/extract.py".
+
+export const SKILL_MD = 'SKILL.md';
+
+/** Forward slashes, no leading "./", no doubled slashes. */
+export const normalizeSkillFilePath = (path: string) =>
+  path.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/{2,}/g, '/');
+
+/** "scripts/extract.py" -> "scripts"; "" for files at the skill root. */
+export const skillFileDirectory = (path: string) => path.split('/').slice(0, -1).join('/');
+
+export const skillFileBaseName = (path: string) => path.split('/').pop() ?? path;
+
+// eslint-disable-next-line no-control-regex
+const UNSAFE_PATH_CHARACTERS = /[<>:"|?*\x00-\x1f]/;
+
+/** Why `path` cannot be used for a file in a skill folder, or null. `otherPaths` are the skill's other files. */
+export function validateSkillFilePath(path: string, otherPaths: string[] = []): string | null {
+  if (!path.trim()) return 'File name is required.';
+  if (path.startsWith('/') || /^[A-Za-z]:/.test(path)) return 'Paths must be relative to the skill folder.';
+  const segments = path.split(/[\\/]/);
+  if (segments.includes('..')) return 'Paths cannot leave the skill folder ("..").';
+  if (segments.some((segment) => !segment.trim() || segment === '.')) return 'Folder and file names cannot be empty.';
+  if (UNSAFE_PATH_CHARACTERS.test(path)) return 'Paths cannot contain < > : " | ? * or control characters.';
+  if (path === SKILL_MD) return `${SKILL_MD} is generated from the Definition tab.`;
+  if (otherPaths.includes(path)) return 'Another file already uses this path.';
+  if (otherPaths.some((other) => other.startsWith(`${path}/`))) return 'A folder with this name already exists.';
+  const parentFile = otherPaths.find((other) => path.startsWith(`${other}/`));
+  if (parentFile) return `"${parentFile}" is a file, not a folder.`;
+  return null;
+}
+
+/** Path errors of a skill's files by file id. */
+export function skillFilePathErrors(files: SkillFile[]): Map<string, string> {
+  const errors = new Map<string, string>();
+  files.forEach((file) => {
+    const error = validateSkillFilePath(file.name, files.filter((f) => f.id !== file.id).map((f) => f.name));
+    if (error) errors.set(file.id, error);
+  });
+  return errors;
+}
+
+/** Every folder that holds a file, including parents, sorted. */
+export function skillFileFolders(files: SkillFile[]): string[] {
+  const folders = new Set<string>();
+  files.forEach((file) => {
+    const parts = file.name.split('/').slice(0, -1);
+    parts.forEach((_, idx) => folders.add(parts.slice(0, idx + 1).join('/')));
+  });
+  return [...folders].sort();
+}
@@ -0,0 +1,103 @@
+import type { AgentSkill } from '../types';
+import { skillFilePathErrors, normalizeSkillFilePath, SKILL_MD } from './skillFiles';
+
+// Checks a skill against the SKILL.md rules agents rely on when discovering and loading
+// skills, plus the consistency of its helper files.
+
+export const MAX_SKILL_NAME_LENGTH = 64;
+export const MAX_SKILL_DESCRIPTION_LENGTH = 1024;
+// Longer bodies should move detail into reference files that are read on demand.
+export const MAX_SKILL_INSTRUCTION_LINES = 500;
+
+const RESERVED_NAME_WORDS = ['anthropic', 'claude'];
+
+export type SkillIssueField = 'name' | 'description' | 'instructions' | 'files';
+
+export interface SkillIssue {
+  severity: 'error' | 'warning';
+  field: SkillIssueField;
+  message: string;
+  /** For issues with one helper file. */
+  fileId?: string;
+}
+
+const XML_TAG = /<\/?[A-Za-z][^>]*>/;
+
+// [label](target) links; images (![alt](src)) match too.
+const MARKDOWN_LINK = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+const isExternalLink = (target: string) => /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('/');
+
+/** Relative files linked from the instructions, e.g. "scripts/extract.py", without anchors. */
+export function linkedSkillFiles(instructions: string): string[] {
+  const targets = [...instructions.matchAll(MARKDOWN_LINK)]
+    .map((match) => match[1])
+    .filter((target) => !isExternalLink(target))
+    .map((target) => {
+      let path = target.replace(/[#?].*$/, '');
+      try {
+        path = decodeURI(path);
+      } catch {
+        // Keep malformed escapes as typed.
+      }
+      return normalizeSkillFilePath(path);
+    });
+  return [...new Set(targets.filter(Boolean))];
+}
+
+/** Problems with `skill`; `otherNames` are the names of the other skills in the configuration. */
+export function lintSkill(skill: AgentSkill, otherNames: string[]): SkillIssue[] {
+  const issues: SkillIssue[] = [];
+  const add = (severity: SkillIssue['severity'], field: SkillIssueField, message: string, fileId?: string) =>
+    issues.push({ severity, field, message, ...(fileId && { fileId }) });
+
+  if (!skill.name) {
+    add('error', 'name', 'Name is required.');
+  } else {
+    if (!/^[a-z0-9-]+$/.test(skill.name)) add('error', 'name', 'Use only lowercase letters, numbers and hyphens.');
+    if (skill.name.length > MAX_SKILL_NAME_LENGTH) add('error', 'name', `Keep the name to ${MAX_SKILL_NAME_LENGTH} characters (now ${skill.name.length}).`);
+    const reserved = RESERVED_NAME_WORDS.find((word) => skill.name.includes(word));
+    if (reserved) add('error', 'name', `"${reserved}" is reserved and cannot be part of a skill name.`);
+    if (otherNames.includes(skill.name)) add('error', 'name', `Another skill is already named "${skill.name}"; both would use .skillz/${skill.name}/.`);
+  }
+
+  const description = skill.description.trim();
+  if (!description) {
+    add('error', 'description', 'A description is required; agents use it to decide when to load the skill.');
+  } else {
+    if (description.length > MAX_SKILL_DESCRIPTION_LENGTH) {
+      add('error', 'description', `Keep the description to ${MAX_SKILL_DESCRIPTION_LENGTH} characters (now ${description.length}).`);
+    }
+    if (XML_TAG.test(description)) add('error', 'description', 'The description cannot contain XML tags.');
+  }
+
+  if (!skill.instructions.trim()) {
+    add('error', 'instructions', 'Instructions are required.');
+  } else {
+    const lines = skill.instructions.split('\n').length;
+    if (lines > MAX_SKILL_INSTRUCTION_LINES) {
+      add('warning', 'instructions', `${lines} lines; keep ${SKILL_MD} under ${MAX_SKILL_INSTRUCTION_LINES} and move details into reference files.`);
+    }
+  }
+
+  const paths = skill.files.map((f) => f.name);
+  linkedSkillFiles(skill.instructions)
+    .filter((path) => path !== SKILL_MD && !paths.includes(path))
+    .forEach((path) => add('error', 'files', `The instructions link to "${path}", but the skill has no such file.`));
+
+  skillFilePathErrors(skill.files).forEach((message, fileId) => add('error', 'files', message, fileId));
+  return issues;
+}
+
+/** Issues of every skill that has any, in list order. */
+export const lintSkills = (skills: AgentSkill[]) =>
+  skills.flatMap((skill) => {
+    const issues = lintSkill(skill, skills.filter((s) => s.id !== skill.id).map((s) => s.name));
+    return issues.length > 0 ? [{ skill, issues }] : [];
+  });
+
+/** One line per blocking problem, e.g. for refusing to generate a bundle. */
+export const skillLintErrors = (skills: AgentSkill[]) =>
+  lintSkills(skills).flatMap(({ skill, issues }) =>
+    issues.filter((issue) => issue.severity === 'error').map((issue) => `${skill.name || '(unnamed skill)'}: ${issue.message}`)
+  );
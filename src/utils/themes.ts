@@ -0,0 +1,139 @@
+import type { CustomTheme } from '../types';
+
+// Terminal color themes: the built-in ones the preview knows about, and helpers for
+// designing custom themes in Gemini CLI's settings.json "customThemes" format.
+
+export type ThemeColorKey = Exclude<keyof CustomTheme, 'name' | 'type' | 'GradientColors'>;
+
+export interface ThemeColorField {
+  key: ThemeColorKey;
+  label: string;
+  description: string;
+  /** Color the field is read against, for the contrast check. Backgrounds have none. */
+  contrastWith?: ThemeColorKey;
+  /** Minimum contrast ratio: 4.5 for body text (WCAG AA), 3 for accents and secondary text. */
+  minContrast?: number;
+}
+
+export const THEME_COLOR_GROUPS: { title: string; fields: ThemeColorField[] }[] = [
+  {
+    title: 'Base',
+    fields: [
+      { key: 'Background', label: 'Background', description: 'Terminal background.' },
+      { key: 'Foreground', label: 'Foreground', description: 'Body text.', contrastWith: 'Background', minContrast: 4.5 },
+      { key: 'Gray', label: 'Gray', description: 'Secondary text such as hints and paths.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'Comment', label: 'Comment', description: 'Code comments.', contrastWith: 'Background', minContrast: 3 },
+    ],
+  },
+  {
+    title: 'Accents & Syntax',
+    fields: [
+      { key: 'AccentBlue', label: 'Accent', description: 'Prompt, links and keywords.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'LightBlue', label: 'Light Blue', description: 'Types and secondary highlights.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'AccentPurple', label: 'Purple', description: 'Control-flow keywords.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'AccentCyan', label: 'Cyan', description: 'Function names.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'AccentGreen', label: 'Green', description: 'Strings and success messages.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'AccentYellow', label: 'Yellow', description: 'Numbers and warnings.', contrastWith: 'Background', minContrast: 3 },
+      { key: 'AccentRed', label: 'Red', description: 'Errors.', contrastWith: 'Background', minContrast: 3 },
+    ],
+  },
+  {
+    title: 'Diff',
+    fields: [
+      { key: 'DiffAdded', label: 'Added Lines', description: 'Background of added lines; text is drawn in Foreground.' },
+      { key: 'DiffRemoved', label: 'Removed Lines', description: 'Background of removed lines; text is drawn in Foreground.' },
+    ],
+  },
+];
+
+const palette = (name: string, colors: Omit<CustomTheme, 'name' | 'type'>): CustomTheme => ({ name, type: 'custom', ...colors });
+
+export const BUILT_IN_THEMES: Record<string, CustomTheme> = {
+  light: palette('light', {
+    Background: '#ffffff', Foreground: '#202124', LightBlue: '#1967d2', AccentBlue: '#1a73e8', AccentPurple: '#8430ce',
+    AccentCyan: '#007b83', AccentGreen: '#188038', AccentYellow: '#b06000', AccentRed: '#d93025', Comment: '#5f6368',
+    Gray: '#5f6368', DiffAdded: '#e6f4ea', DiffRemoved: '#fce8e6',
+  }),
+  dark: palette('dark', {
+    Background: '#202124', Foreground: '#e8eaed', LightBlue: '#aecbfa', AccentBlue: '#8ab4f8', AccentPurple: '#c58af9',
+    AccentCyan: '#78d9ec', AccentGreen: '#81c995', AccentYellow: '#fdd663', AccentRed: '#f28b82', Comment: '#9aa0a6',
+    Gray: '#bdc1c6', DiffAdded: '#1e3a2a', DiffRemoved: '#4a2323',
+  }),
+  GitHub: palette('GitHub', {
+    Background: '#0d1117', Foreground: '#c9d1d9', LightBlue: '#79c0ff', AccentBlue: '#58a6ff', AccentPurple: '#d2a8ff',
+    AccentCyan: '#76e3ea', AccentGreen: '#7ee787', AccentYellow: '#e3b341', AccentRed: '#ff7b72', Comment: '#8b949e',
+    Gray: '#8b949e', DiffAdded: '#033a16', DiffRemoved: '#67060c',
+  }),
+  // Stand-in for "follow the terminal": a neutral dark palette.
+  system: palette('system', {
+    Background: '#1e1e1e', Foreground: '#d4d4d4', LightBlue: '#9cdcfe', AccentBlue: '#4ec9b0', AccentPurple: '#c586c0',
+    AccentCyan: '#dcdcaa', AccentGreen: '#ce9178', AccentYellow: '#b5cea8', AccentRed: '#f44747', Comment: '#6a9955',
+    Gray: '#a0a0a0', DiffAdded: '#373d29', DiffRemoved: '#4b1818',
+  }),
+};
+
+/** The palette Gemini CLI would use for `themeName`, falling back to the system palette. */
+export const resolveTheme = (themeName: string | undefined, customThemes: Record<string, CustomTheme> = {}): CustomTheme =>
+  (themeName && (customThemes[themeName] ?? BUILT_IN_THEMES[themeName])) || BUILT_IN_THEMES.system;
+
+/** A new custom theme called `name`, starting from the colors of `base`. */
+export const createCustomTheme = (name: string, base: CustomTheme = BUILT_IN_THEMES.dark): CustomTheme => ({ ...base, name, type: 'custom' });
+
+/** Why `name` cannot be used for a custom theme, or null when it can. */
+export function validateThemeName(name: string, otherNames: string[]): string | null {
+  if (!name.trim()) return 'Name is required.';
+  if (name !== name.trim()) return 'Name cannot start or end with spaces.';
+  if (name in BUILT_IN_THEMES) return `"${name}" is a built-in theme.`;
+  if (otherNames.includes(name)) return `A theme named "${name}" already exists.`;
+  return null;
+}
+
+// --- contrast (WCAG 2.1) ---
+
+/** Parses #rgb or #rrggbb into 0-255 channels; other CSS colors return null. */
+export function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? [...match[1]].map((c) => c + c).join('') : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+const relativeLuminance = ([r, g, b]: [number, number, number]) => {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+/** Contrast ratio between two colors (1 to 21), or null if either is not a hex color. */
+export function contrastRatio(a: string, b: string): number | null {
+  const ca = parseHexColor(a);
+  const cb = parseHexColor(b);
+  if (!ca || !cb) return null;
+  const [light, dark] = [relativeLuminance(ca), relativeLuminance(cb)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export interface ContrastCheck {
+  key: ThemeColorKey;
+  against: ThemeColorKey;
+  ratio: number | null;
+  minimum: number;
+  passes: boolean;
+}
+
+/** Checks every text color against its background, including Foreground on the diff backgrounds. */
+export function checkThemeContrast(theme: CustomTheme): ContrastCheck[] {
+  const check = (key: ThemeColorKey, against: ThemeColorKey, minimum: number): ContrastCheck => {
+    const ratio = contrastRatio(theme[key] ?? '', theme[against] ?? '');
+    return { key, against, ratio, minimum, passes: ratio === null || ratio >= minimum };
+  };
+  const checks = THEME_COLOR_GROUPS.flatMap((g) => g.fields)
+    .filter((f) => f.contrastWith && f.minContrast)
+    .map((f) => check(f.key, f.contrastWith!, f.minContrast!));
+  (['DiffAdded', 'DiffRemoved'] as const).forEach((key) => {
+    if (theme[key]) checks.push(check('Foreground', key, 4.5));
+  });
+  return checks;
+}
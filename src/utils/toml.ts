@@ -0,0 +1,437 @@
+import type { CustomCommand } from '../types';
+
+// A small TOML 1.0 reader/writer covering what Gemini CLI config files use:
+// key/value pairs, [tables], dotted keys, strings, numbers, booleans, arrays
+// and inline tables. Dates and arrays of tables are rejected with an error.
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export class TomlParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TomlParseError';
+    this.line = line;
+  }
+}
+
+// --- Emitter ---
+
+// Control characters other than tab are not allowed raw in any TOML string.
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/;
+
+const escapeChar = (ch: string) => {
+  switch (ch) {
+    case '\b': return '\\b';
+    case '\t': return '\\t';
+    case '\n': return '\\n';
+    case '\f': return '\\f';
+    case '\r': return '\\r';
+    case '"': return '\\"';
+    case '\\': return '\\\\';
+    default: return `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}`;
+  }
+};
+
+const basicString = (value: string) =>
+  // eslint-disable-next-line no-control-regex
+  `"${value.replace(/[\u0000-\u001F\u007F"\\]/g, escapeChar)}"`;
+
+const multilineBasicString = (value: string) => {
+  const body = value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F\\]/g, escapeChar)
+    // Escape runs of three or more quotes, and quotes right before the closing delimiter.
+    .replace(/"+/g, (run, offset: number, whole: string) =>
+      run.length >= 3 || offset + run.length === whole.length ? run.replace(/"/g, '\\"') : run);
+  return `"""\n${body}"""`;
+};
+
+/**
+ * Serializes a string using the most readable TOML form that represents it
+ * exactly: literal strings when nothing needs escaping, multi-line strings for
+ * text with line breaks, and escaped basic strings otherwise.
+ */
+export function stringifyTomlString(value: string): string {
+  const hasControl = CONTROL_CHARS.test(value);
+  if (!value.includes('\n')) {
+    if (!hasControl && !value.includes('\r') && !value.includes("'") && /["\\]/.test(value)) {
+      return `'${value}'`;
+    }
+    return basicString(value);
+  }
+  // Literal multi-line strings cannot contain ''' , a lone \r, or end in a quote.
+  if (!hasControl && !/\r(?!\n)/.test(value) && !value.includes("'''") && !value.endsWith("'")) {
+    return `'''\n${value}'''`;
+  }
+  return multilineBasicString(value);
+}
+
+const stringifyKey = (key: string) => (/^[A-Za-z0-9_-]+$/.test(key) ? key : basicString(key));
+
+const isTable = (value: TomlValue): value is TomlTable =>
+  typeof value === 'object' && !Array.isArray(value);
+
+function stringifyValue(value: TomlValue): string {
+  if (typeof value === 'string') return stringifyTomlString(value);
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return 'nan';
+    if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf';
+    return String(value);
+  }
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map(stringifyValue).join(', ')}]`;
+  return `{ ${Object.entries(value).map(([k, v]) => `${stringifyKey(k)} = ${stringifyValue(v)}`).join(', ')} }`;
+}
+
+/**
+ * Serializes a table. Top-level values are separated by blank lines so
+ * multi-line prompts stay readable; nested tables become [sections].
+ */
+export function stringifyToml(table: TomlTable, path: string[] = []): string {
+  const entries = Object.entries(table);
+  const values = entries.filter(([, v]) => !isTable(v));
+  const tables = entries.filter(([, v]) => isTable(v)) as [string, TomlTable][];
+
+  const blocks: string[] = [];
+  if (values.length > 0) {
+    const header = path.length > 0 ? `[${path.map(stringifyKey).join('.')}]\n` : '';
+    blocks.push(header + values.map(([k, v]) => `${stringifyKey(k)} = ${stringifyValue(v)}`).join(path.length > 0 ? '\n' : '\n\n'));
+  }
+  tables.forEach(([k, v]) => blocks.push(stringifyToml(v, [...path, k])));
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+// --- Parser ---
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+class Parser {
+  private pos = 0;
+  private readonly src: string;
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  private get line() {
+    return this.src.slice(0, this.pos).split('\n').length;
+  }
+
+  private fail(message: string): never {
+    throw new TomlParseError(message, this.line);
+  }
+
+  private peek(length = 1) {
+    return this.src.slice(this.pos, this.pos + length);
+  }
+
+  private eof() {
+    return this.pos >= this.src.length;
+  }
+
+  private skipSpaces() {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+  }
+
+  private skipComment() {
+    if (this.peek() !== '#') return;
+    while (!this.eof() && this.peek() !== '\n') {
+      if (CONTROL_CHARS.test(this.peek())) this.fail('Control character in comment');
+      this.pos++;
+    }
+  }
+
+  // Skips whitespace, comments and newlines between statements (and inside arrays).
+  private skipBlank() {
+    for (;;) {
+      this.skipSpaces();
+      this.skipComment();
+      if (this.peek() === '\n') this.pos++;
+      else if (this.peek(2) === '\r\n') this.pos += 2;
+      else return;
+    }
+  }
+
+  private expectLineEnd() {
+    this.skipSpaces();
+    this.skipComment();
+    if (this.eof()) return;
+    if (this.peek() === '\n') this.pos++;
+    else if (this.peek(2) === '\r\n') this.pos += 2;
+    else this.fail(`Unexpected "${this.peek()}" after value`);
+  }
+
+  parse(): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+    // Tables defined via [header], which may not be redefined.
+    const defined = new Set<TomlTable>();
+
+    for (;;) {
+      this.skipBlank();
+      if (this.eof()) return root;
+
+      if (this.peek() === '[') {
+        if (this.peek(2) === '[[') this.fail('Arrays of tables are not supported');
+        this.pos++;
+        this.skipSpaces();
+        const path = this.parseKey();
+        this.skipSpaces();
+        if (this.peek() !== ']') this.fail('Expected "]" to close table header');
+        this.pos++;
+        current = this.resolveTable(root, path);
+        if (defined.has(current)) this.fail(`Table [${path.join('.')}] defined twice`);
+        defined.add(current);
+        this.expectLineEnd();
+        continue;
+      }
+
+      const path = this.parseKey();
+      this.skipSpaces();
+      if (this.peek() !== '=') this.fail('Expected "=" after key');
+      this.pos++;
+      this.skipSpaces();
+      this.assign(current, path, this.parseValue());
+      this.expectLineEnd();
+    }
+  }
+
+  private resolveTable(root: TomlTable, path: string[]): TomlTable {
+    let table = root;
+    for (const key of path) {
+      const next = table[key] ?? (table[key] = {});
+      if (!isTable(next)) this.fail(`Key "${key}" is not a table`);
+      table = next;
+    }
+    return table;
+  }
+
+  private assign(table: TomlTable, path: string[], value: TomlValue) {
+    const target = this.resolveTable(table, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (key in target) this.fail(`Duplicate key "${path.join('.')}"`);
+    target[key] = value;
+  }
+
+  private parseKey(): string[] {
+    const keys = [this.parseSimpleKey()];
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() !== '.') return keys;
+      this.pos++;
+      this.skipSpaces();
+      keys.push(this.parseSimpleKey());
+    }
+  }
+
+  private parseSimpleKey(): string {
+    if (this.peek() === '"') return this.parseBasicString();
+    if (this.peek() === "'") return this.parseLiteralString();
+    const start = this.pos;
+    while (BARE_KEY.test(this.peek())) this.pos++;
+    if (start === this.pos) this.fail('Expected a key');
+    return this.src.slice(start, this.pos);
+  }
+
+  private parseValue(): TomlValue {
+    if (this.peek(3) === '"""') return this.parseMultilineBasicString();
+    if (this.peek(3) === "'''") return this.parseMultilineLiteralString();
+    if (this.peek() === '"') return this.parseBasicString();
+    if (this.peek() === "'") return this.parseLiteralString();
+    if (this.peek() === '[') return this.parseArray();
+    if (this.peek() === '{') return this.parseInlineTable();
+    if (this.peek(4) === 'true') { this.pos += 4; return true; }
+    if (this.peek(5) === 'false') { this.pos += 5; return false; }
+    return this.parseNumber();
+  }
+
+  private parseEscape(): string {
+    this.pos++; // backslash
+    const ch = this.peek();
+    this.pos++;
+    switch (ch) {
+      case 'b': return '\b';
+      case 't': return '\t';
+      case 'n': return '\n';
+      case 'f': return '\f';
+      case 'r': return '\r';
+      case '"': return '"';
+      case '\\': return '\\';
+      case 'u':
+      case 'U': {
+        const length = ch === 'u' ? 4 : 8;
+        const hex = this.src.slice(this.pos, this.pos + length);
+        if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) this.fail('Invalid unicode escape');
+        this.pos += length;
+        const code = parseInt(hex, 16);
+        if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) this.fail('Invalid unicode scalar value');
+        return String.fromCodePoint(code);
+      }
+      default:
+        return this.fail(`Invalid escape sequence "\\${ch}"`);
+    }
+  }
+
+  private parseBasicString(): string {
+    this.pos++;
+    let out = '';
+    for (;;) {
+      if (this.eof() || this.peek() === '\n') this.fail('Unterminated string');
+      const ch = this.peek();
+      if (ch === '"') { this.pos++; return out; }
+      if (ch === '\\') { out += this.parseEscape(); continue; }
+      if (CONTROL_CHARS.test(ch) || ch === '\r') this.fail('Control character in string');
+      out += ch;
+      this.pos++;
+    }
+  }
+
+  private parseLiteralString(): string {
+    this.pos++;
+    const end = this.src.indexOf("'", this.pos);
+    const newline = this.src.indexOf('\n', this.pos);
+    if (end === -1 || (newline !== -1 && newline < end)) this.fail('Unterminated literal string');
+    const value = this.src.slice(this.pos, end);
+    if (CONTROL_CHARS.test(value) || value.includes('\r')) this.fail('Control character in string');
+    this.pos = end + 1;
+    return value;
+  }
+
+  private skipLeadingNewline() {
+    if (this.peek() === '\n') this.pos++;
+    else if (this.peek(2) === '\r\n') this.pos += 2;
+  }
+
+  // Up to two quotes may sit directly before the closing delimiter.
+  private closeMultiline(quote: string): string {
+    let run = 0;
+    while (this.peek() === quote) { run++; this.pos++; }
+    if (run > 5) this.fail('Too many quotes at end of string');
+    return quote.repeat(run - 3);
+  }
+
+  private parseMultilineBasicString(): string {
+    this.pos += 3;
+    this.skipLeadingNewline();
+    let out = '';
+    for (;;) {
+      if (this.eof()) this.fail('Unterminated multi-line string');
+      if (this.peek(3) === '"""') return out + this.closeMultiline('"');
+      const ch = this.peek();
+      if (ch === '\\') {
+        // A backslash at the end of a line trims the newline and following whitespace.
+        const rest = /^\\[ \t]*\r?\n/.exec(this.src.slice(this.pos));
+        if (rest) {
+          this.pos += rest[0].length;
+          while (/[ \t\r\n]/.test(this.peek()) && !this.eof()) this.pos++;
+          continue;
+        }
+        out += this.parseEscape();
+        continue;
+      }
+      if (CONTROL_CHARS.test(ch) || (ch === '\r' && this.peek(2) !== '\r\n')) this.fail('Control character in string');
+      out += ch;
+      this.pos++;
+    }
+  }
+
+  private parseMultilineLiteralString(): string {
+    this.pos += 3;
+    this.skipLeadingNewline();
+    const end = this.src.indexOf("'''", this.pos);
+    if (end === -1) this.fail('Unterminated multi-line literal string');
+    const value = this.src.slice(this.pos, end);
+    if (CONTROL_CHARS.test(value) || /\r(?!\n)/.test(value)) this.fail('Control character in string');
+    this.pos = end;
+    return value + this.closeMultiline("'");
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos++;
+    const items: TomlValue[] = [];
+    for (;;) {
+      this.skipBlank();
+      if (this.peek() === ']') { this.pos++; return items; }
+      items.push(this.parseValue());
+      this.skipBlank();
+      if (this.peek() === ',') { this.pos++; continue; }
+      if (this.peek() === ']') { this.pos++; return items; }
+      this.fail('Expected "," or "]" in array');
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos++;
+    const table: TomlTable = {};
+    this.skipSpaces();
+    if (this.peek() === '}') { this.pos++; return table; }
+    for (;;) {
+      this.skipSpaces();
+      const path = this.parseKey();
+      this.skipSpaces();
+      if (this.peek() !== '=') this.fail('Expected "=" in inline table');
+      this.pos++;
+      this.skipSpaces();
+      this.assign(table, path, this.parseValue());
+      this.skipSpaces();
+      if (this.peek() === ',') { this.pos++; continue; }
+      if (this.peek() === '}') { this.pos++; return table; }
+      this.fail('Expected "," or "}" in inline table');
+    }
+  }
+
+  private parseNumber(): number {
+    const rest = this.src.slice(this.pos);
+    const special = /^[+-]?(inf|nan)/.exec(rest);
+    if (special) {
+      this.pos += special[0].length;
+      if (special[1] === 'nan') return NaN;
+      return special[0].startsWith('-') ? -Infinity : Infinity;
+    }
+    const prefixed = /^0(x[0-9a-fA-F](?:_?[0-9a-fA-F])*|o[0-7](?:_?[0-7])*|b[01](?:_?[01])*)/.exec(rest);
+    if (prefixed) {
+      this.pos += prefixed[0].length;
+      return Number(prefixed[0].replace(/_/g, ''));
+    }
+    const decimal = /^[+-]?(0|[1-9](?:_?\d)*)(\.\d(?:_?\d)*)?([eE][+-]?\d(?:_?\d)*)?/.exec(rest);
+    if (!decimal) this.fail('Invalid value');
+    if (/^[\d-]/.test(rest.slice(decimal[0].length, decimal[0].length + 1)) || rest.slice(decimal[0].length).startsWith(':')) {
+      this.fail('Dates and times are not supported');
+    }
+    this.pos += decimal[0].length;
+    return Number(decimal[0].replace(/_/g, ''));
+  }
+}
+
+export function parseToml(source: string): TomlTable {
+  return new Parser(source).parse();
+}
+
+// --- Gemini CLI command files ---
+
+/**
+ * Builds the .toml file for a custom command. Shared by the editor preview
+ * and the bundle so what you see is exactly what gets downloaded.
+ */
+export function serializeCommandToml(command: Pick<CustomCommand, 'name' | 'description' | 'prompt'>): string {
+  const table: TomlTable = {};
+  if (command.description) table.description = command.description;
+  table.prompt = command.prompt;
+  return `# Invoked as: /${command.name}\n${stringifyToml(table)}\n`;
+}
+
+export function parseCommandToml(source: string): { description?: string; prompt?: string; unknownKeys: string[] } {
+  const table = parseToml(source);
+  const asString = (value: TomlValue | undefined) => (typeof value === 'string' ? value : undefined);
+  return {
+    description: asString(table.description),
+    prompt: asString(table.prompt),
+    unknownKeys: Object.keys(table).filter((k) => k !== 'description' && k !== 'prompt'),
+  };
+}
@@ -0,0 +1,18 @@
+import JSZip from 'jszip';
+import type { BundleFile } from './bundle';
+
+// Regular-file mode bits; zip readers expect the file type alongside the permissions.
+const FILE_MODE = 0o100644;
+const EXECUTABLE_MODE = 0o100755;
+
+/** Zips bundle files, decoding binary content and keeping executable bits for unzip on macOS and Linux. */
+export function zipBundleFiles(files: BundleFile[]): Promise<Blob> {
+  const zip = new JSZip();
+  files.forEach((file) => {
+    zip.file(file.path, file.content, {
+      base64: file.encoding === 'base64',
+      unixPermissions: file.executable ? EXECUTABLE_MODE : FILE_MODE,
+    });
+  });
+  return zip.generateAsync({ type: 'blob', platform: 'UNIX' });
+}
@@ -5,32 +5,39 @@ import {
   Paper,
   TextField,
   Button,
-  List,
-  ListItem,
-  ListItemText,
-  IconButton,
   Divider,
   Alert,
-  ListItemButton,
+  Chip,
 } from '@mui/material';
-import { Add as AddIcon, Delete as DeleteIcon, Save as SaveIcon } from '@mui/icons-material';
+import { Add as AddIcon, Save as SaveIcon } from '@mui/icons-material';
 import { useAppStore } from '../store/appStore';
-import type { CustomCommand } from '../types';
+import type { CustomCommand, CommandFixture } from '../types';
+import { serializeCommandToml } from '../utils/toml';
+import { validatePromptTemplate, listShellCommands, describeShellRisk } from '../utils/commandPrompt';
+import PromptHighlight from '../components/PromptHighlight';
+import CommandTestBench from '../components/CommandTestBench';
+import CommandTree from '../components/CommandTree';
+import { validateCommandName } from '../utils/commandNames';
 
 export default function CommandBuilder() {
-  const { commands, addCommand, updateCommand, removeCommand } = useAppStore();
+  const { commands, settings, addCommand, updateCommand } = useAppStore();
   const [editingId, setEditingId] = React.useState<string | null>(null);
   
   // Form state
   const [name, setName] = React.useState('');
   const [description, setDescription] = React.useState('');
   const [prompt, setPrompt] = React.useState('');
+  const [fixtures, setFixtures] = React.useState<CommandFixture[]>([]);
+  // The stored name the form was loaded with, to notice renames made outside the form.
+  const [loadedName, setLoadedName] = React.useState('');
 
   const handleEdit = (cmd: CustomCommand) => {
       setEditingId(cmd.id);
       setName(cmd.name);
+      setLoadedName(cmd.name);
       setDescription(cmd.description);
       setPrompt(cmd.prompt);
+      setFixtures(cmd.fixtures ?? []);
   };
 
   const handleNew = () => {
@@ -38,34 +45,51 @@ export default function CommandBuilder() {
       setName('');
       setDescription('');
       setPrompt('');
+      setFixtures([]);
   };
 
+  // Namespace renames, moves, deletes and undo in the tree change the store under the open form.
+  // Follow them so that saving does not write the old name back or resurrect a deleted command.
+  const stored = editingId ? commands.find((c) => c.id === editingId) : undefined;
+  if (editingId && !stored) {
+      handleNew();
+  } else if (stored && stored.name !== loadedName) {
+      setName(stored.name);
+      setLoadedName(stored.name);
+  }
+
+  // An empty name only disables saving; "required" would be noise on a fresh form.
+  const nameIssues = name ? validateCommandName(name, commands.filter((c) => c.id !== editingId).map((c) => c.name)) : [];
+  const nameError = nameIssues.find((issue) => issue.severity === 'error');
+  const nameWarning = nameIssues.find((issue) => issue.severity === 'warning');
+  const promptIssues = validatePromptTemplate(prompt, settings.includeDirectories);
+  const hasPromptErrors = promptIssues.some((issue) => issue.severity === 'error');
+  const shellCommands = listShellCommands(prompt);
+  const hasInjections = /[!@]\{/.test(prompt);
+
   const handleSave = () => {
-      if (!name || !prompt) return;
+      if (!name || !prompt || nameError || hasPromptErrors) return;
 
       if (editingId) {
-          updateCommand(editingId, { name, description, prompt });
+          updateCommand(editingId, { name, description, prompt, fixtures });
       } else {
           addCommand({
               id: crypto.randomUUID(),
               name,
               description,
-              prompt
+              prompt,
+              fixtures,
           });
       }
       handleNew();
   };
 
-  const previewToml = editingId || (name || prompt) ? 
-`# Invoked as: /${name || 'command'}
-description = "${description}"
-
-prompt = """
-${prompt}
-"""` : '# Select a command to preview TOML';
+  const previewToml = editingId || (name || prompt)
+      ? serializeCommandToml({ name: name || 'command', description, prompt })
+      : '# Select a command to preview TOML';
 
   return (
-    <Box>
+    <Box data-local-undo>
        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">
           Custom Command Builder
@@ -83,36 +107,7 @@ ${prompt}
                     </Button>
                 </Box>
                 <Divider />
-                <List sx={{ maxHeight: '600px', overflow: 'auto' }}>
-                    {commands.length === 0 && (
-                        <ListItem>
-                            <ListItemText secondary="No commands yet. Create one!" />
-                        </ListItem>
-                    )}
-                    {commands.map((cmd) => (
-                        <ListItem 
-                            key={cmd.id}
-                            disablePadding
-                            secondaryAction={
-                                <IconButton edge="end" aria-label="delete" onClick={() => removeCommand(cmd.id)}>
-                                    <DeleteIcon />
-                                </IconButton>
-                            }
-                        >
-                            <ListItemButton
-                                onClick={() => handleEdit(cmd)} 
-                                selected={editingId === cmd.id}
-                            >
-                                <ListItemText 
-                                    primary={`/${cmd.name}`} 
-                                    secondary={cmd.description || 'No description'} 
-                                    primaryTypographyProps={{ fontWeight: 'bold', color: 'primary.main' }}
-                                    secondaryTypographyProps={{ noWrap: true }}
-                                />
-                            </ListItemButton>
-                        </ListItem>
-                    ))}
-                </List>
+                <CommandTree editingId={editingId} onEdit={handleEdit} />
             </Paper>
         </Box>
 
@@ -128,7 +123,9 @@ ${prompt}
                         <TextField
                             label="Command Name"
                             placeholder="test:gen"
-                            helperText="Invoked as /name"
+                            helperText={(nameError ?? nameWarning)?.message ?? 'Invoked as /name; use ":" for namespaces'}
+                            error={Boolean(nameError)}
+                            FormHelperTextProps={{ sx: { color: !nameError && nameWarning ? 'warning.main' : undefined } }}
                             fullWidth
                             value={name}
                             onChange={(e) => setName(e.target.value)}
@@ -148,7 +145,8 @@ ${prompt}
                     </Box>
                     <Box>
                         <Alert severity="info" sx={{ mb: 1, py: 0 }}>
-                            Tip: Use <code>{'{{args}}'}</code> to insert user arguments.
+                            Tip: Use <code>{'{{args}}'}</code> to insert user arguments, <code>{'!{git diff}'}</code> to insert
+                            the output of a shell command and <code>{'@{path/to/file}'}</code> to insert a file.
                         </Alert>
                         <TextField
                             label="Prompt Template"
@@ -160,16 +158,35 @@ ${prompt}
                             onChange={(e) => setPrompt(e.target.value)}
                             sx={{ fontFamily: 'monospace' }}
                         />
+                        {(hasInjections || prompt.includes('{{args}}')) && (
+                            <Box sx={{ mt: 1 }}>
+                                <PromptHighlight prompt={prompt} />
+                            </Box>
+                        )}
+                        {promptIssues.map((issue, idx) => (
+                            <Alert key={idx} severity={issue.severity} sx={{ mt: 1, py: 0 }}>
+                                {issue.message}
+                            </Alert>
+                        ))}
                     </Box>
                     <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
                         <Button onClick={handleNew}>Cancel</Button>
-                        <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!name || !prompt}>
+                        <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!name || !prompt || Boolean(nameError) || hasPromptErrors}>
                             {editingId ? 'Update Command' : 'Save Command'}
                         </Button>
                     </Box>
                 </Box>
             </Paper>
 
+            <CommandTestBench
+                key={editingId ?? 'new'}
+                name={name}
+                prompt={prompt}
+                fixtures={fixtures}
+                unsaved={JSON.stringify(fixtures) !== JSON.stringify(stored?.fixtures ?? [])}
+                onChange={setFixtures}
+            />
+
             {/* Preview */}
              <Paper sx={{ p: 2, bgcolor: '#f5f5f5', color: '#333' }}>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
@@ -178,6 +195,22 @@ ${prompt}
                 <pre style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.9rem', margin: 0 }}>
                     {previewToml}
                 </pre>
+                {shellCommands.length > 0 && (
+                    <Box sx={{ mt: 2 }}>
+                        <Typography variant="overline">Shell Commands Run</Typography>
+                        {shellCommands.map((command, idx) => {
+                            const risk = describeShellRisk(command);
+                            return (
+                                <Box key={idx} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                                    <Box component="code" sx={{ fontFamily: 'monospace', fontSize: '0.9rem', wordBreak: 'break-all' }}>
+                                        $ {command}
+                                    </Box>
+                                    {risk && <Chip size="small" color="error" variant="outlined" label={risk} />}
+                                </Box>
+                            );
+                        })}
+                    </Box>
+                )}
             </Paper>
         </Box>
       </Box>
@@ -3,11 +3,17 @@ import { Typography, Box, Card, CardActionArea, Chip, Paper, Button } from '@mui
 import { useAppStore } from '../store/appStore';
 import { useNavigate } from 'react-router-dom';
 import { PERSONAS } from '../data/personas';
-import { RocketLaunch as RocketIcon, Person as PersonIcon } from '@mui/icons-material';
+import { SANDBOX_RUNTIME_LABELS, getSandboxRuntime, isYoloWithoutSandbox } from '../utils/sandbox';
+import { lintSkills } from '../utils/skillLint';
+import { RocketLaunch as RocketIcon, Person as PersonIcon, Workspaces as WorkspacesIcon } from '@mui/icons-material';
 
 export default function Dashboard() {
-    const { settings, contextSections, commands, loadPersona } = useAppStore();
+    const { settings, contextSections, commands, skills, loadPersona, workspaces, activeWorkspaceId } = useAppStore();
+    const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId);
     const navigate = useNavigate();
+    const skillIssues = lintSkills(skills).flatMap(({ issues }) => issues);
+    const skillErrors = skillIssues.filter((issue) => issue.severity === 'error').length;
+    const skillWarnings = skillIssues.length - skillErrors;
 
     const handleLoadPersona = (persona: any) => {
         if (confirm(`Load "${persona.name}" persona? This will append to your current configuration.`)) {
@@ -48,7 +54,10 @@ export default function Dashboard() {
                 ))}
             </Box>
 
-            <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>Current Configuration</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                <Typography variant="h6">Current Configuration</Typography>
+                <Chip icon={<WorkspacesIcon />} label={`Workspace: ${activeWorkspace?.name ?? 'Default'}`} color="primary" variant="outlined" />
+            </Box>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
                 {/* Context Stats */}
                 <Box sx={{ flex: 1, minWidth: 300 }}>
@@ -75,6 +84,14 @@ export default function Dashboard() {
                         <Typography variant="body1">
                             YOLO Mode: <strong>{settings.autoAccept ? 'ON' : 'OFF'}</strong>
                         </Typography>
+                        <Typography variant="body1">
+                            Sandbox: <strong>{SANDBOX_RUNTIME_LABELS[getSandboxRuntime(settings.sandbox)]}</strong>
+                        </Typography>
+                        {isYoloWithoutSandbox(settings) && (
+                            <Typography variant="body2" color="warning.main" sx={{ mt: 1 }}>
+                                YOLO mode without a sandbox runs commands unchecked on your machine.
+                            </Typography>
+                        )}
                         <Box sx={{ flexGrow: 1 }} />
                         <Button variant="outlined" onClick={() => navigate('/settings')} sx={{ mt: 2 }}>
                             Configure Settings
@@ -96,6 +113,26 @@ export default function Dashboard() {
                         </Button>
                     </Paper>
                 </Box>
+
+                {/* Skills Stats */}
+                <Box sx={{ flex: 1, minWidth: 300 }}>
+                    <Paper sx={{ p: 3, height: '100%', display: 'flex', flexDirection: 'column' }}>
+                        <Typography variant="h6" gutterBottom>Agent Skills</Typography>
+                        <Typography variant="h3" color="primary">
+                            {skills.length}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">Defined Skills</Typography>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 1 }}>
+                            {skillErrors > 0 && <Chip size="small" color="error" label={skillErrors === 1 ? '1 error' : `${skillErrors} errors`} />}
+                            {skillWarnings > 0 && <Chip size="small" color="warning" label={skillWarnings === 1 ? '1 warning' : `${skillWarnings} warnings`} />}
+                            {skills.length > 0 && skillIssues.length === 0 && <Chip size="small" color="success" label="All valid" />}
+                        </Box>
+                        <Box sx={{ flexGrow: 1 }} />
+                        <Button variant="outlined" onClick={() => navigate('/skills')} sx={{ mt: 2 }}>
+                            Manage Skills
+                        </Button>
+                    </Paper>
+                </Box>
             </Box>
         </Box>
     );
@@ -8,6 +8,7 @@ import {
   CardActions,
   Button,
   Link,
+  Chip,
 } from '@mui/material';
 import { Extension as ExtensionIcon, Add as AddIcon, Check as CheckIcon, OpenInNew as OpenInNewIcon } from '@mui/icons-material';
 import { useAppStore } from '../store/appStore';
@@ -31,6 +32,7 @@ export default function ExtensionsManager() {
         <Typography variant="body1" color="text.secondary">
             Discover and install extensions to supercharge your Gemini CLI. 
             Select extensions here to include their installation instructions in your download.
+            Extensions that ship MCP servers also add them to the exported settings.json.
         </Typography>
       </Box>
 
@@ -50,6 +52,13 @@ export default function ExtensionsManager() {
                             <Typography variant="body2" color="text.secondary" paragraph>
                                 {ext.description}
                             </Typography>
+                            {ext.mcpConfig && (
+                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                                    {Object.keys(ext.mcpConfig).map((server) => (
+                                        <Chip key={server} size="small" variant="outlined" label={`MCP server: ${server}`} />
+                                    ))}
+                                </Box>
+                            )}
                             <Link href={ext.url} target="_blank" rel="noopener" sx={{ display: 'flex', alignItems: 'center', fontSize: '0.8rem' }}>
                                 View on GitHub <OpenInNewIcon sx={{ fontSize: 14, ml: 0.5 }} />
                             </Link>
@@ -3,61 +3,86 @@ import {
   Box,
   Typography,
   Paper,
-  Switch,
-  FormControlLabel,
-  TextField,
   Tooltip,
   IconButton,
-  MenuItem,
-  Chip,
-  Button,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  ToggleButtonGroup,
+  ToggleButton,
 } from '@mui/material';
-import { Info as InfoIcon } from '@mui/icons-material';
+import { Info as InfoIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import { useAppStore } from '../store/appStore';
-import type { Settings } from '../types';
 import TerminalPreview from '../components/TerminalPreview';
+import McpServersPanel from '../components/McpServersPanel';
+import SandboxPanel from '../components/SandboxPanel';
+import ThemeDesignerPanel from '../components/ThemeDesignerPanel';
+import SettingsPreview from '../components/SettingsPreview';
+import { mergeExtensionMcpServers, resolveExportedSettings } from '../utils/mcpServers';
+import { validateJsonSchema, formatIssuePath } from '../utils/jsonSchema';
+import type { JsonSchema } from '../utils/jsonSchema';
+import SchemaField from '../components/SchemaField';
+import ScopeSelect from '../components/ScopeSelect';
+import type { SettingsScope } from '../types';
+import {
+  SETTINGS_SCOPES,
+  SETTINGS_SCOPE_LABELS,
+  SETTINGS_SCOPE_PATHS,
+  getSettingsScope,
+  splitSettingsByScope,
+  mergeSettingsScopes,
+} from '../utils/settingsScopes';
+import { SETTINGS_SCHEMA } from '../data/settingsSchema';
 
-export default function SettingsBuilder() {
-  const { settings, updateSettings } = useAppStore();
+// Form sections in schema order; the sandbox, MCP server and custom theme panels are hand-built.
+const SETTINGS_GROUPS = Object.entries(SETTINGS_SCHEMA.properties ?? {}).reduce<{ group: string; properties: [string, JsonSchema][] }[]>(
+  (groups, [key, schema]) => {
+    if (schema.hideInForm) return groups;
+    const name = schema.group ?? 'Other';
+    const existing = groups.find((g) => g.group === name);
+    if (existing) existing.properties.push([key, schema]);
+    else groups.push({ group: name, properties: [[key, schema]] });
+    return groups;
+  },
+  []
+);
 
-  const handleToggle = (key: keyof Settings | string, subKey?: string) => {
-    if (subKey && key === 'checkpointing') {
-         updateSettings({
-            checkpointing: { ...settings.checkpointing, [subKey]: !settings.checkpointing?.[subKey as keyof typeof settings.checkpointing] }
-         });
-    } else if (subKey && key === 'telemetry') {
-        updateSettings({
-           telemetry: { ...settings.telemetry, [subKey]: !settings.telemetry?.[subKey as keyof typeof settings.telemetry] }
-        });
-    } else {
-        updateSettings({ [key]: !settings[key as keyof Settings] });
-    }
-  };
+// Whether `path` points at something inside `value`, used to show only the issues of one file.
+const hasPath = (value: unknown, path: (string | number)[]): boolean =>
+  path.length === 0 ||
+  (typeof value === 'object' && value !== null && path[0] in value && hasPath((value as Record<string | number, unknown>)[path[0]], path.slice(1)));
 
-  const handleTextChange = (key: keyof Settings | string, value: any, subKey?: string) => {
-     if (subKey && key === 'telemetry') {
-        updateSettings({
-           telemetry: { ...settings.telemetry, [subKey]: value }
-        });
-     } else {
-         updateSettings({ [key]: value });
-     }
-  };
+export default function SettingsBuilder() {
+  const { settings, settingsScopes, updateSettings, removeSetting, setSettingsScope, activeExtensions } = useAppStore();
+  const [previewScope, setPreviewScope] = React.useState<SettingsScope | 'effective'>('effective');
+  const scopedSettings = splitSettingsByScope(resolveExportedSettings(settings, activeExtensions), settingsScopes);
+  const effectiveSettings = mergeSettingsScopes(scopedSettings);
+  const { origins } = mergeExtensionMcpServers(settings.mcpServers, activeExtensions);
+  const issues = validateJsonSchema(effectiveSettings, SETTINGS_SCHEMA);
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
 
-  // Helper for arrays like includeDirectories
-  const handleAddArrayItem = (key: 'includeDirectories' | 'excludeTools', value: string) => {
-      if (!value) return;
-      updateSettings({ [key]: [...(settings[key] || []), value] });
-  };
+  const settingsRecord = settings as Record<string, unknown>;
+  const unknownKeys = Object.keys(settings).filter((key) => !(key in (SETTINGS_SCHEMA.properties ?? {})));
+  const previewSettings = previewScope === 'effective' ? effectiveSettings : scopedSettings[previewScope];
+  const previewIssues = issues.filter((issue) => hasPath(previewSettings, issue.path));
 
-  const handleRemoveArrayItem = (key: 'includeDirectories' | 'excludeTools', index: number) => {
-      const newArr = [...(settings[key] || [])];
-      newArr.splice(index, 1);
-      updateSettings({ [key]: newArr });
-  };
-  
-  const [newDir, setNewDir] = React.useState('');
-  const [newTool, setNewTool] = React.useState('');
+  const renderField = (key: string, schema: JsonSchema) => (
+    <Box key={key} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <SchemaField
+                name={key}
+                schema={key === 'theme' ? { ...schema, examples: [...(schema.examples ?? []), ...Object.keys(settings.customThemes ?? {})] } : schema}
+                value={settingsRecord[key]}
+                onChange={(value) => updateSettings({ [key]: value })}
+                issues={issues}
+                path={[key]}
+            />
+        </Box>
+        <ScopeSelect value={getSettingsScope(settingsScopes, key)} onChange={(scope) => setSettingsScope(key, scope)} />
+    </Box>
+  );
 
   return (
     <Box>
@@ -73,131 +98,96 @@ export default function SettingsBuilder() {
       <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
         {/* Form Column */}
         <Box sx={{ flex: 2, minWidth: 300 }}>
-            <Paper sx={{ p: 3, mb: 3 }}>
-                <Typography variant="h6" gutterBottom>Appearance</Typography>
-                <TextField
-                    select
-                    label="Theme"
-                    value={settings.theme || 'system'}
-                    onChange={(e) => handleTextChange('theme', e.target.value)}
-                    fullWidth
-                    size="small"
-                    sx={{ mb: 2 }}
-                >
-                    <MenuItem value="system">System Default</MenuItem>
-                    <MenuItem value="light">Light</MenuItem>
-                    <MenuItem value="dark">Dark</MenuItem>
-                    <MenuItem value="GitHub">GitHub Theme</MenuItem>
-                </TextField>
-            </Paper>
-
-            <Paper sx={{ p: 3, mb: 3 }}>
-                <Typography variant="h6" gutterBottom>Safety & Behavior</Typography>
-                
-                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
-                    <FormControlLabel
-                        control={<Switch checked={settings.autoAccept || false} onChange={() => handleToggle('autoAccept')} />}
-                        label="YOLO Mode (Auto-Accept)"
-                    />
-                    <Tooltip title="DANGER: Automatically runs commands without asking for confirmation. Use with extreme caution!">
-                        <IconButton size="small" color="warning"><InfoIcon /></IconButton>
-                    </Tooltip>
-                </Box>
+            {SETTINGS_GROUPS.map(({ group, properties }) => (
+                <Paper key={group} sx={{ p: 3, mb: 3 }}>
+                    <Typography variant="h6" gutterBottom>{group}</Typography>
+                    {properties.map(([key, schema]) => renderField(key, schema))}
+                </Paper>
+            ))}
 
-                 <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
-                    <FormControlLabel
-                        control={<Switch checked={settings.checkpointing?.enabled ?? true} onChange={() => handleToggle('checkpointing', 'enabled')} />}
-                        label="Enable Checkpointing"
-                    />
-                    <Tooltip title="Creates a snapshot of files before changes, allowing you to /restore if Gemini messes up.">
-                        <IconButton size="small"><InfoIcon /></IconButton>
-                    </Tooltip>
-                </Box>
+            <ThemeDesignerPanel />
 
-                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
-                    <FormControlLabel
-                        control={<Switch checked={settings.telemetry?.enabled || false} onChange={() => handleToggle('telemetry', 'enabled')} />}
-                        label="Enable Telemetry"
-                    />
-                     <Tooltip title="Sends usage statistics. Useful for debugging or tracking token usage.">
-                        <IconButton size="small"><InfoIcon /></IconButton>
-                    </Tooltip>
-                </Box>
+            <SandboxPanel />
 
-                {settings.telemetry?.enabled && (
-                    <TextField
-                        select
-                        label="Telemetry Target"
-                        value={settings.telemetry?.target || 'local'}
-                        onChange={(e) => handleTextChange('telemetry', e.target.value, 'target')}
-                        fullWidth
-                        size="small"
-                        sx={{ mt: 1 }}
-                    >
-                        <MenuItem value="local">Local File</MenuItem>
-                        <MenuItem value="gcp">Google Cloud</MenuItem>
-                    </TextField>
-                )}
-            </Paper>
+            <McpServersPanel issues={issues.filter((i) => i.path[0] === 'mcpServers')} />
 
-            <Paper sx={{ p: 3, mb: 3 }}>
-                <Typography variant="h6" gutterBottom>Workspaces & Tools</Typography>
-                
-                <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>Include Directories</Typography>
-                <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
-                    <TextField 
-                        size="small" 
-                        placeholder="../other-repo" 
-                        fullWidth 
-                        value={newDir} 
-                        onChange={(e) => setNewDir(e.target.value)}
-                        onKeyPress={(e) => {
-                            if(e.key === 'Enter') { handleAddArrayItem('includeDirectories', newDir); setNewDir(''); }
-                        }}
-                    />
-                    <Button variant="outlined" onClick={() => { handleAddArrayItem('includeDirectories', newDir); setNewDir(''); }}>Add</Button>
-                </Box>
-                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                    {settings.includeDirectories?.map((dir, idx) => (
-                        <Chip key={idx} label={dir} onDelete={() => handleRemoveArrayItem('includeDirectories', idx)} />
+            {unknownKeys.length > 0 && (
+                <Paper sx={{ p: 3, mb: 3 }}>
+                    <Typography variant="h6" gutterBottom>Other Settings</Typography>
+                    <Typography variant="body2" color="text.secondary" paragraph>
+                        These keys are not in the Gemini CLI settings schema. They are kept in the export as-is.
+                    </Typography>
+                    {unknownKeys.map((key) => (
+                        <Box key={key} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                            <Box sx={{ flexGrow: 1, minWidth: 0 }}>{renderField(key, {})}</Box>
+                            <Tooltip title={`Remove "${key}"`}>
+                                <IconButton size="small" onClick={() => removeSetting(key)}><DeleteIcon /></IconButton>
+                            </Tooltip>
+                        </Box>
                     ))}
-                </Box>
-
-                <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>Exclude Tools</Typography>
-                <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
-                    <TextField 
-                        size="small" 
-                        placeholder="rm, run_shell_command" 
-                        fullWidth 
-                        value={newTool} 
-                        onChange={(e) => setNewTool(e.target.value)}
-                        onKeyPress={(e) => {
-                            if(e.key === 'Enter') { handleAddArrayItem('excludeTools', newTool); setNewTool(''); }
-                        }}
-                    />
-                    <Button variant="outlined" onClick={() => { handleAddArrayItem('excludeTools', newTool); setNewTool(''); }}>Add</Button>
-                </Box>
-                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                    {settings.excludeTools?.map((tool, idx) => (
-                        <Chip key={idx} label={tool} onDelete={() => handleRemoveArrayItem('excludeTools', idx)} color="error" variant="outlined" />
-                    ))}
-                </Box>
-            </Paper>
+                </Paper>
+            )}
         </Box>
 
         {/* Preview Column */}
         <Box sx={{ flex: 1, minWidth: 300, display: 'flex', flexDirection: 'column', gap: 3 }}>
             <Box>
-                <Typography variant="subtitle2" gutterBottom>Theme Preview</Typography>
-                <TerminalPreview themeName={settings.theme || 'system'} />
+                <Typography variant="subtitle2" gutterBottom>Session Preview</Typography>
+                <TerminalPreview themeName={settings.theme || 'system'} customThemes={settings.customThemes} interactive />
+                <Typography variant="caption" color="text.secondary">
+                    A simulated session with this configuration. Commands are expanded, not run.
+                </Typography>
+            </Box>
+
+            {issues.length === 0 ? (
+                <Alert severity="success">settings.json matches the Gemini CLI settings schema.</Alert>
+            ) : (
+                <Alert severity={errorCount > 0 ? 'error' : 'warning'}>
+                    {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+                    <List dense disablePadding>
+                        {issues.map((issue, idx) => (
+                            <ListItem key={idx} disableGutters>
+                                <ListItemText
+                                    primary={`${formatIssuePath(issue.path) || '(root)'}: ${issue.message}`}
+                                    primaryTypographyProps={{ variant: 'body2' }}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                </Alert>
+            )}
+
+            <Box>
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    fullWidth
+                    value={previewScope}
+                    onChange={(_, value: SettingsScope | 'effective' | null) => value && setPreviewScope(value)}
+                >
+                    <ToggleButton value="effective">Effective</ToggleButton>
+                    {SETTINGS_SCOPES.map((scope) => (
+                        <ToggleButton key={scope} value={scope}>{SETTINGS_SCOPE_LABELS[scope]}</ToggleButton>
+                    ))}
+                </ToggleButtonGroup>
+                <Typography variant="caption" color="text.secondary">
+                    {previewScope === 'effective'
+                        ? 'What Gemini CLI sees: system settings override workspace settings, which override user settings.'
+                        : `Written to ${SETTINGS_SCOPE_PATHS[previewScope]}${previewScope === 'workspace' ? '' : ' by setup.sh'}.`}
+                </Typography>
             </Box>
 
             <Paper sx={{ p: 2, bgcolor: '#1e1e1e', color: '#d4d4d4', flexGrow: 1, overflow: 'auto' }}>
                 <Typography variant="overline" display="block" gutterBottom sx={{ color: '#9cdcfe' }}>
-                    Live Preview (settings.json)
+                    Live Preview ({previewScope === 'effective' ? 'merged settings' : SETTINGS_SCOPE_PATHS[previewScope]})
                 </Typography>
                 <pre style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.85rem' }}>
-                    {JSON.stringify(settings, null, 2)}
+                    <SettingsPreview
+                        settings={previewSettings}
+                        origins={origins}
+                        issues={previewIssues}
+                        scopes={previewScope === 'effective' ? settingsScopes : undefined}
+                    />
                 </pre>
             </Paper>
         </Box>
@@ -14,6 +14,8 @@ import {
   Tabs,
   Tab,
   ListItemButton,
+  Tooltip,
+  Autocomplete,
 } from '@mui/material';
 import { 
     Add as AddIcon, 
@@ -21,11 +23,20 @@ import {
     Save as SaveIcon, 
     Description as DescIcon,
     InsertDriveFile as FileIcon,
-    LibraryBooks as LibraryIcon
+    LibraryBooks as LibraryIcon,
+    ErrorOutline as ErrorIcon,
+    WarningAmber as WarningIcon,
 } from '@mui/icons-material';
 import { useAppStore } from '../store/appStore';
 import type { AgentSkill, SkillFile } from '../types';
 import { CURATED_SKILLS } from '../data/marketplace';
+import { serializeFrontmatter, skillFrontmatter } from '../utils/frontmatter';
+import SkillFilesPanel from '../components/SkillFilesPanel';
+import KeyValueField from '../components/KeyValueField';
+import { BUILT_IN_TOOLS } from '../data/builtInTools';
+import { skillFilePathErrors } from '../utils/skillFiles';
+import { lintSkill, lintSkills, MAX_SKILL_DESCRIPTION_LENGTH } from '../utils/skillLint';
+import type { SkillIssue, SkillIssueField } from '../utils/skillLint';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -51,6 +62,16 @@ function CustomTabPanel(props: TabPanelProps) {
   );
 }
 
+function SkillIssuesIcon({ issues = [] }: { issues?: SkillIssue[] }) {
+  if (issues.length === 0) return null;
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return (
+    <Tooltip title={issues.map((issue) => issue.message).join(' ')}>
+      {errors.length > 0 ? <ErrorIcon color="error" fontSize="small" /> : <WarningIcon color="warning" fontSize="small" />}
+    </Tooltip>
+  );
+}
+
 export default function SkillsBuilder() {
   const { skills, addSkill, updateSkill, removeSkill } = useAppStore();
   const [editingId, setEditingId] = React.useState<string | null>(null);
@@ -61,6 +82,10 @@ export default function SkillsBuilder() {
   const [description, setDescription] = React.useState('');
   const [instructions, setInstructions] = React.useState('');
   const [files, setFiles] = React.useState<SkillFile[]>([]);
+  const [allowedTools, setAllowedTools] = React.useState<string[]>([]);
+  const [license, setLicense] = React.useState('');
+  const [version, setVersion] = React.useState('');
+  const [metadataRows, setMetadataRows] = React.useState<[string, string][]>([]);
   const [tabValue, setTabValue] = React.useState(0);
 
   // Load skill into editor
@@ -70,6 +95,10 @@ export default function SkillsBuilder() {
       setDescription(skill.description);
       setInstructions(skill.instructions);
       setFiles([...skill.files]); // Shallow copy array
+      setAllowedTools(skill.allowedTools ?? []);
+      setLicense(skill.license ?? '');
+      setVersion(skill.version ?? '');
+      setMetadataRows(Object.entries(skill.metadata ?? {}));
       setTabValue(0);
       setShowLibrary(false);
   };
@@ -81,6 +110,10 @@ export default function SkillsBuilder() {
       setDescription('');
       setInstructions('# My Skill\n\nInstructions go here...');
       setFiles([]);
+      setAllowedTools([]);
+      setLicense('');
+      setVersion('');
+      setMetadataRows([]);
       setTabValue(0);
       setShowLibrary(false);
   };
@@ -96,14 +129,49 @@ export default function SkillsBuilder() {
       setShowLibrary(false);
   };
 
+  const hasFileErrors = skillFilePathErrors(files).size > 0;
+  const slug = name.toLowerCase().replace(/\s+/g, '-'); // Enforced on save
+
+  // The draft is linted as it would be saved; saved skills are linted in the list.
+  const draftIssues = lintSkill(
+      { id: editingId ?? '', name: slug, description, instructions, files },
+      skills.filter((s) => s.id !== editingId).map((s) => s.name)
+  );
+  const issuesFor = (field: SkillIssueField) => draftIssues.filter((issue) => issue.field === field);
+  const firstIssue = (field: SkillIssueField): SkillIssue | undefined =>
+      issuesFor(field).find((issue) => issue.severity === 'error') ?? issuesFor(field)[0];
+  const skillIssues = new Map(lintSkills(skills).map(({ skill, issues }) => [skill.id, issues]));
+  // Name and description are judged once typed; a blank new form is not an error yet.
+  const nameIssue = name ? firstIssue('name') : undefined;
+  const descriptionIssue = description ? firstIssue('description') : undefined;
+  const fileIssues = issuesFor('files').filter((issue) => !issue.fileId);
+  const isError = (issue?: SkillIssue) => issue?.severity === 'error';
+  const definitionHasErrors = [nameIssue, descriptionIssue, ...issuesFor('instructions')].some(isError);
+  const filesHaveErrors = issuesFor('files').some(isError);
+
+  const metadataKeys = metadataRows.map(([key]) => key.trim()).filter(Boolean);
+  const metadataError = metadataKeys.includes('version')
+      ? 'Use the Version field for "version".'
+      : metadataKeys.find((key, idx) => metadataKeys.indexOf(key) !== idx)
+          ? 'Each metadata key can only be used once.'
+          : undefined;
+  const metadata = Object.fromEntries(metadataRows.filter(([key]) => key.trim()).map(([key, value]) => [key.trim(), value]));
+  const frontmatterFields = {
+      allowedTools: allowedTools.length > 0 ? allowedTools : undefined,
+      license: license.trim() || undefined,
+      version: version.trim() || undefined,
+      metadata: metadataKeys.length > 0 ? metadata : undefined,
+  };
+
   const handleSave = () => {
-      if (!name) return;
+      if (!name || hasFileErrors || metadataError) return;
 
       const skillData = {
-          name: name.toLowerCase().replace(/\s+/g, '-'), // Enforce slug
+          name: slug,
           description,
           instructions,
-          files
+          files,
+          ...frontmatterFields,
       };
 
       if (editingId) {
@@ -117,32 +185,15 @@ export default function SkillsBuilder() {
       handleNew();
   };
 
-  // File management
-  const handleAddFile = () => {
-      const newFile: SkillFile = {
-          id: crypto.randomUUID(),
-          name: 'script.py',
-          content: '# Helper script'
-      };
-      setFiles([...files, newFile]);
-  };
-
-  const updateFile = (id: string, key: 'name' | 'content', value: string) => {
-      setFiles(files.map(f => f.id === id ? { ...f, [key]: value } : f));
-  };
-
-  const removeFile = (id: string) => {
-      setFiles(files.filter(f => f.id !== id));
-  };
-
   // Previews
-  const frontmatterPreview = `---
-name: ${name || 'skill-name'}
-description: ${description || 'Description'}
----`;
+  const frontmatterPreview = serializeFrontmatter(skillFrontmatter({
+      name: name || 'skill-name',
+      description: description || 'Description',
+      ...frontmatterFields,
+  }));
 
   return (
-    <Box>
+    <Box data-local-undo>
        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">
           Agent Skills Builder
@@ -191,6 +242,7 @@ description: ${description || 'Description'}
                                     primaryTypographyProps={{ fontWeight: 'bold' }}
                                     secondaryTypographyProps={{ noWrap: true }}
                                 />
+                                <SkillIssuesIcon issues={skillIssues.get(skill.id)} />
                             </ListItemButton>
                         </ListItem>
                     ))}
@@ -224,8 +276,8 @@ description: ${description || 'Description'}
             <Paper sx={{ minHeight: 400 }}>
                 <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
                     <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)}>
-                        <Tab icon={<DescIcon />} label="Definition" />
-                        <Tab icon={<FileIcon />} label={`Files (${files.length})`} />
+                        <Tab icon={<DescIcon />} label="Definition" sx={{ color: definitionHasErrors || metadataError ? 'error.main' : undefined }} />
+                        <Tab icon={<FileIcon />} label={`Files (${files.length})`} sx={{ color: filesHaveErrors ? 'error.main' : undefined }} />
                     </Tabs>
                 </Box>
 
@@ -239,7 +291,8 @@ description: ${description || 'Description'}
                                 fullWidth
                                 value={name}
                                 onChange={(e) => setName(e.target.value)}
-                                helperText="Use lowercase and hyphens (e.g. data-analysis)"
+                                error={isError(nameIssue)}
+                                helperText={nameIssue?.message ?? (slug !== name ? `Saved as "${slug}"` : 'Use lowercase and hyphens (e.g. data-analysis)')}
                                 sx={{ flex: 1 }}
                             />
                             <TextField
@@ -248,14 +301,63 @@ description: ${description || 'Description'}
                                 fullWidth
                                 value={description}
                                 onChange={(e) => setDescription(e.target.value)}
+                                error={isError(descriptionIssue)}
+                                helperText={descriptionIssue?.message ?? `${description.trim().length}/${MAX_SKILL_DESCRIPTION_LENGTH}; say what the skill does and when to use it`}
                                 sx={{ flex: 1 }}
                             />
                         </Box>
+
+                        <Autocomplete
+                            multiple
+                            freeSolo
+                            options={BUILT_IN_TOOLS.map((tool) => tool.name)}
+                            getOptionLabel={(option) => {
+                                const tool = BUILT_IN_TOOLS.find((t) => t.name === option);
+                                return tool ? `${tool.name} (${tool.displayName})` : option;
+                            }}
+                            value={allowedTools}
+                            onChange={(_, next) => setAllowedTools([...new Set(next.map((tool) => tool.trim()).filter(Boolean))])}
+                            renderInput={(params) => (
+                                <TextField
+                                    {...params}
+                                    label="Allowed Tools"
+                                    placeholder={allowedTools.length === 0 ? 'Any tool' : undefined}
+                                    helperText="Tools the skill may use without asking; type a name to add an MCP tool"
+                                />
+                            )}
+                        />
+                        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                            <TextField
+                                label="License"
+                                placeholder="Apache-2.0"
+                                value={license}
+                                onChange={(e) => setLicense(e.target.value)}
+                                helperText="A license name, or the bundled file with its terms"
+                                sx={{ flex: 2, minWidth: 200 }}
+                            />
+                            <TextField
+                                label="Version"
+                                placeholder="1.0.0"
+                                value={version}
+                                onChange={(e) => setVersion(e.target.value)}
+                                helperText="Saved as metadata.version"
+                                sx={{ flex: 1, minWidth: 120 }}
+                            />
+                        </Box>
+                        <KeyValueField
+                            label="Metadata"
+                            keyPlaceholder="author"
+                            valuePlaceholder="Value"
+                            rows={metadataRows}
+                            error={metadataError}
+                            helperText="Extra string properties, e.g. author or homepage"
+                            onChange={setMetadataRows}
+                        />
                         
                         <Box>
                              <Typography variant="subtitle2" gutterBottom>SKILL.md Content</Typography>
                              <Alert severity="info" sx={{ mb: 1, py: 0 }}>
-                                This content defines how the agent should use the skill. The frontmatter (name/desc) is added automatically.
+                                This content defines how the agent should use the skill. The frontmatter is built from the fields above.
                             </Alert>
                              <Paper variant="outlined" sx={{ p: 2, bgcolor: '#f8f8f8', mb: 2 }}>
                                  <Typography variant="caption" sx={{ fontFamily: 'monospace', color: 'text.secondary', whiteSpace: 'pre' }}>
@@ -271,57 +373,29 @@ description: ${description || 'Description'}
                                 onChange={(e) => setInstructions(e.target.value)}
                                 sx={{ fontFamily: 'monospace' }}
                             />
+                            {[...issuesFor('instructions'), ...fileIssues].map((issue) => (
+                                <Alert key={issue.message} severity={issue.severity} sx={{ mt: 1, py: 0 }}>
+                                    {issue.message}
+                                </Alert>
+                            ))}
                         </Box>
                     </Box>
                 </CustomTabPanel>
 
                 {/* Tab 1: Resource Files */}
                 <CustomTabPanel value={tabValue} index={1}>
-                     <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
-                        <Button startIcon={<AddIcon />} variant="outlined" onClick={handleAddFile}>
-                            Add Resource File
-                        </Button>
-                     </Box>
-
-                     {files.length === 0 ? (
-                         <Typography color="text.secondary" align="center" sx={{ py: 4 }}>
-                             No helper files added. Add scripts or data files if your skill needs them.
-                         </Typography>
-                     ) : (
-                         files.map((file) => (
-                             <Paper key={file.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
-                                 <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-                                     <TextField 
-                                        label="Filename" 
-                                        size="small" 
-                                        value={file.name} 
-                                        onChange={(e) => updateFile(file.id, 'name', e.target.value)}
-                                        sx={{ width: 200 }}
-                                     />
-                                     <Box sx={{ flexGrow: 1 }} />
-                                     <IconButton color="error" onClick={() => removeFile(file.id)}>
-                                         <DeleteIcon />
-                                     </IconButton>
-                                 </Box>
-                                 <TextField
-                                    label="File Content"
-                                    multiline
-                                    minRows={4}
-                                    maxRows={12}
-                                    fullWidth
-                                    value={file.content}
-                                    onChange={(e) => updateFile(file.id, 'content', e.target.value)}
-                                    sx={{ fontFamily: 'monospace' }}
-                                 />
-                             </Paper>
-                         ))
-                     )}
+                    {fileIssues.map((issue) => (
+                        <Alert key={issue.message} severity={issue.severity} sx={{ mb: 2, py: 0 }}>
+                            {issue.message}
+                        </Alert>
+                    ))}
+                    <SkillFilesPanel key={editingId ?? 'new'} files={files} onChange={setFiles} />
                 </CustomTabPanel>
 
                 <Divider />
                 <Box sx={{ p: 2, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
                     <Button onClick={handleNew}>Cancel</Button>
-                    <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!name}>
+                    <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!name || hasFileErrors || !!metadataError}>
                         {editingId ? 'Update Skill' : 'Save Skill'}
                     </Button>
                 </Box>